@@ -3,92 +3,714 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import { deployFolderOrZipToEdgeOne } from './tools/deploy_folder_or_zip.js';
+import { getAccessUrl } from './tools/access_url.js';
+import { cleanupTemporaryProjects } from './tools/cleanup_projects.js';
+import {
+  addCustomDomain,
+  listCustomDomains,
+  removeCustomDomain,
+  verifyCustomDomain,
+} from './tools/custom_domains.js';
+import { deployFilesToEdgeOne } from './tools/deploy_files.js';
+import {
+  deployFolderOrZipToEdgeOne,
+  DeployOutcome,
+  dryRunFolderOrZip,
+} from './tools/deploy_folder_or_zip.js';
 import { deployHtmlToEdgeOne } from './tools/deploy_html.js';
+import {
+  getDeployment,
+  getDeploymentLogs,
+  listDeployments,
+} from './tools/list_deployments.js';
+import { listProjects } from './tools/list_projects.js';
+import {
+  promoteDeployment,
+  rollbackDeployment,
+} from './tools/rollback_deployment.js';
+import {
+  getHttpServerOptions,
+  isHttpMode,
+  startHttpServer,
+} from './src/http_server.js';
+import { runCli } from './src/cli.js';
+import { formatToolError } from './src/errors.js';
+import { createProgressReporter } from './src/progress.js';
 import { showPackageVersion } from './src/utils.js';
 
 import dotenv from 'dotenv';
 dotenv.config();
 
-const server = new McpServer({
-  name: 'edgeone-pages-deploy-mcp-server',
-  version: '1.0.0',
-  description: `Deploy HTML content to EdgeOne Pages with ease.
-Provide your HTML and let the service handle deployment.
-Also support to deploy a folder to EdgeOne Pages.
-Receive a public URL to access your live page.`,
-});
+const jsonResult = (data: unknown) => {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+};
+
+/**
+ * Return a deployment result as structured content, with the deployment
+ * process log in a separate text item
+ */
+const deployResult = ({ result, logs }: DeployOutcome) => {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2),
+      },
+      {
+        type: 'text' as const,
+        text: logs,
+      },
+    ],
+    structuredContent: { ...result },
+  };
+};
+
+// Output schema shared by the tools that create a deployment
+const deploymentOutputShape = {
+  type: z
+    .enum(['custom', 'temporary', 'pending', 'dry_run'])
+    .describe(
+      '"custom" when served on a verified custom domain, "temporary" for a temporary signed URL, "pending" when the build did not finish before the timeout, "dry_run" for a plan without deployment.'
+    ),
+  url: z
+    .string()
+    .optional()
+    .describe('Public URL of the deployment. Missing while pending.'),
+  projectId: z
+    .string()
+    .optional()
+    .describe('Missing for dry runs that would create a project.'),
+  projectName: z
+    .string()
+    .optional()
+    .describe(
+      'Missing for dry runs given only a project ID without EDGEONE_PAGES_API_TOKEN.'
+    ),
+  consoleUrl: z
+    .string()
+    .optional()
+    .describe('EdgeOne console page of the project.'),
+  deploymentId: z.string().optional(),
+  env: z.enum(['Production', 'Preview']),
+  status: z
+    .string()
+    .optional()
+    .describe('Deployment status, e.g. Success or Process.'),
+  timings: z
+    .object({
+      uploadMs: z.number(),
+      buildMs: z.number(),
+      totalMs: z.number(),
+    })
+    .optional()
+    .describe('Duration of the upload, the build and the whole deployment.'),
+  message: z.string().optional(),
+  warning: z.string().optional(),
+  excluded: z
+    .array(z.string())
+    .optional()
+    .describe('Paths left out by ignore rules or include/exclude globs.'),
+  customDomains: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'All verified custom domains serving this Production deployment.'
+    ),
+  issuedAt: z
+    .string()
+    .optional()
+    .describe(
+      'Issue time of the temporary URL, which is only valid for a limited time. Use get_access_url for a new one.'
+    ),
+  build: z
+    .object({
+      framework: z.string().optional(),
+      packageManager: z.string(),
+      commands: z.array(z.string()),
+      outputDir: z.string(),
+      durationMs: z.number(),
+      logs: z.string(),
+    })
+    .optional()
+    .describe(
+      'Set when the project was built before deploying; logs holds the last lines of the build output.'
+    ),
+  plan: z
+    .object({
+      localPath: z.string(),
+      isZip: z.boolean(),
+      files: z.array(z.object({ path: z.string(), size: z.number() })),
+      fileCount: z.number(),
+      totalBytes: z.number(),
+      projectExists: z.boolean().nullable(),
+      createsProject: z.boolean().nullable(),
+      excluded: z.array(z.string()),
+      sensitiveFiles: z.array(
+        z.object({
+          file: z.string(),
+          reason: z.string(),
+          line: z.number().optional(),
+        })
+      ),
+      validationIssues: z.array(
+        z.object({
+          type: z.string(),
+          message: z.string(),
+          file: z.string().optional(),
+        })
+      ),
+      notes: z.array(z.string()),
+    })
+    .optional()
+    .describe(
+      'Dry runs only: files that would be uploaded and the target project. null when unknown without an API token.'
+    ),
+};
+
+// deploy_files without EDGEONE_PAGES_API_TOKEN deploys a single page and
+// returns only its url
+const deployFilesOutputShape = {
+  ...deploymentOutputShape,
+  type: deploymentOutputShape.type
+    .optional()
+    .describe(
+      'Same as for deploy_folder_or_zip. Missing when the site was deployed as a single page without EDGEONE_PAGES_API_TOKEN; only url is set then.'
+    ),
+  env: deploymentOutputShape.env.optional(),
+};
+
+const paginationParams = {
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .default(0)
+    .describe(
+      'Number of items to skip. Use pagination.nextOffset for the next page.'
+    ),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(20)
+    .describe('Maximum number of items to return (1-100).'),
+};
+
+const timeoutParam = z
+  .number()
+  .int()
+  .min(10)
+  .max(3600)
+  .optional()
+  .describe(
+    'Optional. Maximum seconds to wait for the build (default EDGEONE_PAGES_DEPLOY_TIMEOUT or 600). On timeout the deployment ID and current status are returned so you can check back with get_deployment.'
+  );
 
 const handleUncaughtError = (error: any) => {
-  const errorMessage = error.message || 'Unknown error occurred';
   return {
     content: [
       {
         type: 'text' as const,
-        text: `Error: ${errorMessage}`,
+        text: formatToolError(error),
       },
     ],
     isError: true,
   };
 };
 
-server.tool(
-  'deploy_html',
-  'Deploy HTML content to EdgeOne Pages, return the public URL',
-  {
-    value: z.string().describe(
-      `Provide the full HTML markup you wish to publish.
+/**
+ * Create an MCP server with all EdgeOne Pages tools registered.
+ * In HTTP mode every session gets its own server instance.
+ */
+const createServer = (): McpServer => {
+  const server = new McpServer({
+    name: 'edgeone-pages-deploy-mcp-server',
+    version: '1.0.0',
+    description: `Deploy HTML content to EdgeOne Pages with ease.
+Provide your HTML and let the service handle deployment.
+Also support to deploy a folder to EdgeOne Pages.
+Receive a public URL to access your live page.`,
+  });
+
+  server.registerTool(
+    'deploy_html',
+    {
+      description:
+        'Deploy HTML content to EdgeOne Pages, return the public URL',
+      inputSchema: {
+        value: z.string().describe(
+          `Provide the full HTML markup you wish to publish.
 After deployment, the system will generate and return a public URL where your content can be accessed.`
-    ),
-  },
-  async ({ value }) => {
-    try {
-      const result = await deployHtmlToEdgeOne(value);
+        ),
+      },
+      outputSchema: {
+        url: z.string().describe('Public URL of the deployed page.'),
+      },
+    },
+    async ({ value }) => {
+      try {
+        const result = await deployHtmlToEdgeOne(value);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: result,
+            },
+          ],
+          structuredContent: { url: result },
+        };
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
+    }
+  );
 
-      return {
-        content: [
+  server.registerTool(
+    'deploy_folder_or_zip',
+    {
+      description:
+        'Deploy a built frontend directory (or zip file) to EdgeOne Pages. Returns: the deployment URL and project metadata.',
+      inputSchema: {
+        builtFolderPath: z
+          .string()
+          .describe(
+            'Provide the absolute path to the built frontend folder(or zip file) you wish to deploy.'
+          ),
+        env: z
+          .enum(['Production', 'Preview'])
+          .default('Production')
+          .describe(
+            'Target environment. "Production" replaces the live site; "Preview" creates a separate preview URL and leaves production untouched.'
+          ),
+        projectName: z
+          .string()
+          .optional()
+          .describe(
+            'Optional. Name of the EdgeOne Pages project to deploy to. Created if it does not exist. Defaults to EDGEONE_PAGES_PROJECT_NAME, or a new temporary project.'
+          ),
+        projectId: z
+          .string()
+          .optional()
+          .describe(
+            'Optional. ID of an existing EdgeOne Pages project to deploy to. Takes precedence over projectName.'
+          ),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe(
+            'Optional. Glob patterns (gitignore syntax); only matching files are deployed. Folders only.'
+          ),
+        exclude: z
+          .array(z.string())
+          .optional()
+          .describe(
+            'Optional. Glob patterns (gitignore syntax) to exclude, in addition to .gitignore, .edgeoneignore and the defaults (.git, node_modules, .env, source maps, OS files). Folders only.'
+          ),
+        allowSensitiveFiles: z
+          .boolean()
+          .default(false)
+          .describe(
+            'Deploy even if dotenv files, private keys or API tokens are detected. Only set this after confirming the flagged files are safe to publish.'
+          ),
+        reuseTempProject: z
+          .boolean()
+          .optional()
+          .describe(
+            'Optional. When no project is given, deploy to the newest temporary local-upload-<timestamp> project instead of creating another one. Defaults to EDGEONE_PAGES_REUSE_TEMP_PROJECT.'
+          ),
+        skipValidation: z
+          .boolean()
+          .default(false)
+          .describe(
+            'Deploy even if site validation fails (missing index.html, broken relative links, framework source instead of build output, file count or size limits). Prefer fixing the reported problems.'
+          ),
+        build: z
+          .boolean()
+          .default(false)
+          .describe(
+            'Treat builtFolderPath as a project source folder with a package.json: install dependencies if needed, run its build script, detect the output folder (Vite, Next.js static export, Astro, Create React App, ...) and deploy that. The build output is included in the result.'
+          ),
+        timeoutSeconds: timeoutParam,
+        dryRun: z
+          .boolean()
+          .default(false)
+          .describe(
+            'Only report what would be deployed: files with sizes, total bytes, target project and whether it would be created. Nothing is uploaded; works without EDGEONE_PAGES_API_TOKEN. Cannot be combined with build.'
+          ),
+      },
+      outputSchema: deploymentOutputShape,
+    },
+    async (
+      {
+        builtFolderPath,
+        env,
+        projectName,
+        projectId,
+        include,
+        exclude,
+        allowSensitiveFiles,
+        reuseTempProject,
+        skipValidation,
+        build,
+        timeoutSeconds,
+        dryRun,
+      },
+      extra
+    ) => {
+      try {
+        if (dryRun) {
+          const plan = await dryRunFolderOrZip(
+            builtFolderPath,
+            env,
+            { projectName, projectId, reuseTempProject },
+            { include, exclude, build }
+          );
+          return { ...jsonResult(plan), structuredContent: { ...plan } };
+        }
+        const result = await deployFolderOrZipToEdgeOne(
+          builtFolderPath,
+          env,
+          { projectName, projectId, reuseTempProject },
           {
-            type: 'text' as const,
-            text: result,
-          },
-        ],
-      };
-    } catch (e) {
-      return handleUncaughtError(e);
+            include,
+            exclude,
+            allowSensitiveFiles,
+            skipValidation,
+            build,
+            signal: extra.signal,
+            timeoutMs: timeoutSeconds ? timeoutSeconds * 1000 : undefined,
+            onProgress: createProgressReporter(extra),
+          }
+        );
+        return deployResult(result);
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
     }
-  }
-);
+  );
 
-server.tool(
-  'deploy_folder_or_zip',
-  'Deploy a built frontend directory (or zip file) to EdgeOne Pages. Returns: the deployment URL and project metadata.',
-  {
-    builtFolderPath: z
-      .string()
-      .describe(
-        'Provide the absolute path to the built frontend folder(or zip file) you wish to deploy.'
-      ),
-  },
-  async ({ builtFolderPath }) => {
-    try {
-      const result = await deployFolderOrZipToEdgeOne(builtFolderPath);
-      return {
-        content: [
+  server.registerTool(
+    'deploy_files',
+    {
+      description:
+        'Deploy a small site given as a map of file paths to contents (index.html plus CSS, JS and extra pages) to EdgeOne Pages, without writing files to disk. Returns one public URL for the whole site.',
+      inputSchema: {
+        files: z
+          .record(z.string())
+          .describe(
+            'Map of relative file paths to file contents, e.g. {"index.html": "...", "style.css": "...", "app.js": "..."}. Must include index.html.'
+          ),
+        env: z
+          .enum(['Production', 'Preview'])
+          .default('Production')
+          .describe(
+            'Target environment when EDGEONE_PAGES_API_TOKEN is set. "Preview" leaves production untouched.'
+          ),
+        projectName: z
+          .string()
+          .optional()
+          .describe(
+            'Optional. Project name to deploy to when EDGEONE_PAGES_API_TOKEN is set. Created if it does not exist.'
+          ),
+        projectId: z
+          .string()
+          .optional()
+          .describe(
+            'Optional. ID of an existing project to deploy to when EDGEONE_PAGES_API_TOKEN is set.'
+          ),
+        timeoutSeconds: timeoutParam,
+      },
+      outputSchema: deployFilesOutputShape,
+    },
+    async ({ files, env, projectName, projectId, timeoutSeconds }, extra) => {
+      try {
+        const result = await deployFilesToEdgeOne(
+          files,
+          env,
+          { projectName, projectId },
           {
-            type: 'text' as const,
-            text: result,
-          },
-        ],
-      };
-    } catch (e) {
-      return handleUncaughtError(e);
+            signal: extra.signal,
+            timeoutMs: timeoutSeconds ? timeoutSeconds * 1000 : undefined,
+            onProgress: createProgressReporter(extra),
+          }
+        );
+        if ('result' in result) {
+          return deployResult(result);
+        }
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: result.url,
+            },
+          ],
+          structuredContent: { ...result },
+        };
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
     }
-  }
-);
+  );
+
+  server.tool(
+    'list_projects',
+    'List EdgeOne Pages projects with their status, preset domain and custom domains. Requires EDGEONE_PAGES_API_TOKEN.',
+    paginationParams,
+    async ({ offset, limit }) => {
+      try {
+        return jsonResult(await listProjects(offset, limit));
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
+    }
+  );
+
+  server.tool(
+    'cleanup_temp_projects',
+    'Find the temporary local-upload-<timestamp> projects created by deploys without a project name and delete those older than a given age. Only lists them unless dryRun is false; deleting a project also deletes its deployments and URLs. Requires EDGEONE_PAGES_API_TOKEN.',
+    {
+      olderThanDays: z
+        .number()
+        .min(0)
+        .default(7)
+        .describe(
+          'Only select projects created at least this many days ago. 0 selects all temporary projects.'
+        ),
+      projectIds: z
+        .array(z.string())
+        .optional()
+        .describe(
+          'Optional. Only select these temporary projects, e.g. from a previous dry run.'
+        ),
+      dryRun: z
+        .boolean()
+        .default(true)
+        .describe(
+          'List the selected projects without deleting them. Set to false to delete.'
+        ),
+    },
+    async ({ olderThanDays, projectIds, dryRun }) => {
+      try {
+        return jsonResult(
+          await cleanupTemporaryProjects({ olderThanDays, projectIds, dryRun })
+        );
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
+    }
+  );
+
+  server.tool(
+    'list_deployments',
+    'List deployments of an EdgeOne Pages project, newest first, with env, status, commit info and preview URL. The deployment with usedInProd=true is the one currently live. Requires EDGEONE_PAGES_API_TOKEN.',
+    {
+      projectId: z.string().describe('The EdgeOne Pages project ID.'),
+      ...paginationParams,
+    },
+    async ({ projectId, offset, limit }) => {
+      try {
+        return jsonResult(await listDeployments(projectId, offset, limit));
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
+    }
+  );
+
+  server.tool(
+    'get_deployment',
+    'Get a single EdgeOne Pages deployment by its ID. Requires EDGEONE_PAGES_API_TOKEN.',
+    {
+      projectId: z
+        .string()
+        .describe('The EdgeOne Pages project ID the deployment belongs to.'),
+      deploymentId: z.string().describe('The deployment ID.'),
+    },
+    async ({ projectId, deploymentId }) => {
+      try {
+        return jsonResult(await getDeployment(projectId, deploymentId));
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
+    }
+  );
+
+  server.tool(
+    'get_deployment_logs',
+    'Get the build and error log of an EdgeOne Pages deployment, e.g. to find out why it failed. Requires EDGEONE_PAGES_API_TOKEN.',
+    {
+      projectId: z
+        .string()
+        .describe('The EdgeOne Pages project ID the deployment belongs to.'),
+      deploymentId: z.string().describe('The deployment ID.'),
+      maxLines: z
+        .number()
+        .int()
+        .min(1)
+        .max(5000)
+        .default(500)
+        .describe(
+          'Maximum number of log lines to return; the last lines are kept.'
+        ),
+    },
+    async ({ projectId, deploymentId, maxLines }) => {
+      try {
+        return jsonResult(
+          await getDeploymentLogs(projectId, deploymentId, maxLines)
+        );
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
+    }
+  );
+
+  server.tool(
+    'rollback_deployment',
+    'Make a previous successful Production deployment live again, without uploading anything. Defaults to the deployment before the one currently live. Requires EDGEONE_PAGES_API_TOKEN.',
+    {
+      projectId: z.string().describe('The EdgeOne Pages project ID.'),
+      deploymentId: z
+        .string()
+        .optional()
+        .describe(
+          'Optional. The Production deployment to roll back to. Defaults to the most recent successful Production deployment before the live one.'
+        ),
+    },
+    async ({ projectId, deploymentId }) => {
+      try {
+        return jsonResult(await rollbackDeployment(projectId, deploymentId));
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
+    }
+  );
+
+  server.tool(
+    'promote_deployment',
+    'Promote a successful Preview deployment to Production without uploading it again. This replaces the live site. Requires EDGEONE_PAGES_API_TOKEN.',
+    {
+      projectId: z.string().describe('The EdgeOne Pages project ID.'),
+      deploymentId: z
+        .string()
+        .describe('The Preview deployment to promote to Production.'),
+    },
+    async ({ projectId, deploymentId }) => {
+      try {
+        return jsonResult(await promoteDeployment(projectId, deploymentId));
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
+    }
+  );
+
+  server.tool(
+    'get_access_url',
+    'Issue a fresh signed URL for a deployment whose temporary URL has expired, without deploying again. Returns the URL with its issue time (issuedAt; the API does not report how long it stays valid), plus any verified custom domains. Requires EDGEONE_PAGES_API_TOKEN.',
+    {
+      projectId: z.string().describe('The EdgeOne Pages project ID.'),
+      deploymentId: z
+        .string()
+        .optional()
+        .describe(
+          'Optional. The deployment to link to. Defaults to the deployment currently serving Production.'
+        ),
+    },
+    async ({ projectId, deploymentId }) => {
+      try {
+        return jsonResult(await getAccessUrl(projectId, deploymentId));
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
+    }
+  );
+
+  const domainParams = {
+    projectId: z.string().describe('The EdgeOne Pages project ID.'),
+    domain: z
+      .string()
+      .describe('The custom domain host name, e.g. www.example.com.'),
+  };
+
+  server.tool(
+    'list_custom_domains',
+    'List the custom domains of an EdgeOne Pages project with their verification status and the DNS records each one needs. Requires EDGEONE_PAGES_API_TOKEN.',
+    {
+      projectId: z.string().describe('The EdgeOne Pages project ID.'),
+    },
+    async ({ projectId }) => {
+      try {
+        return jsonResult(await listCustomDomains(projectId));
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
+    }
+  );
+
+  server.tool(
+    'add_custom_domain',
+    'Add a custom domain to an EdgeOne Pages project. Returns the DNS records to create; the domain serves Production once they are verified. Requires EDGEONE_PAGES_API_TOKEN.',
+    domainParams,
+    async ({ projectId, domain }) => {
+      try {
+        return jsonResult(await addCustomDomain(projectId, domain));
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
+    }
+  );
+
+  server.tool(
+    'verify_custom_domain',
+    'Check the DNS records of a custom domain again and return its verification status. Use after creating the records returned by add_custom_domain. Requires EDGEONE_PAGES_API_TOKEN.',
+    domainParams,
+    async ({ projectId, domain }) => {
+      try {
+        return jsonResult(await verifyCustomDomain(projectId, domain));
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
+    }
+  );
+
+  server.tool(
+    'remove_custom_domain',
+    'Remove a custom domain from an EdgeOne Pages project. The site stops being served on that domain. Requires EDGEONE_PAGES_API_TOKEN.',
+    domainParams,
+    async ({ projectId, domain }) => {
+      try {
+        return jsonResult(await removeCustomDomain(projectId, domain));
+      } catch (e) {
+        return handleUncaughtError(e);
+      }
+    }
+  );
+
+  return server;
+};
 
 async function main() {
+  // Subcommands such as `deploy` run once and exit instead of serving MCP
+  const exitCode = await runCli(process.argv.slice(2));
+  if (exitCode !== undefined) {
+    process.exit(exitCode);
+  }
+
   showPackageVersion();
 
+  if (isHttpMode()) {
+    await startHttpServer(createServer, getHttpServerOptions());
+    return;
+  }
+
+  const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
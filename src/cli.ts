@@ -0,0 +1,498 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import {
+  deployFolderOrZipToEdgeOne,
+  DeployEnv,
+  DeployOutcome,
+  DeployProgress,
+  describePagesProjects,
+  dryRunFolderOrZip,
+  DryRunResult,
+  withPagesApi,
+} from '../tools/deploy_folder_or_zip.js';
+import {
+  CleanupProjectsResult,
+  cleanupTemporaryProjects,
+} from '../tools/cleanup_projects.js';
+import { deployHtmlToEdgeOne } from '../tools/deploy_html.js';
+import {
+  ListDeploymentsResult,
+  listDeployments,
+} from '../tools/list_deployments.js';
+import { formatToolError, PagesError } from './errors.js';
+import { formatBytes } from './utils.js';
+
+// Exit codes of the CLI commands
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+// The build did not finish before the timeout
+const EXIT_PENDING = 3;
+
+const USAGE = `Usage: edgeone-pages-mcp [command] [options]
+
+Without a command, the MCP server is started (stdio, or HTTP with --http).
+
+Commands:
+  deploy <folder-or-zip>   Deploy a built folder or zip file
+      --env <env>            production (default) or preview
+      --project <name>       Project name; created if it does not exist
+      --project-id <id>      ID of an existing project
+      --reuse-temp-project   Without a project, reuse the newest temporary project
+      --include <glob>       Only deploy matching files (repeatable)
+      --exclude <glob>       Exclude matching files (repeatable)
+      --allow-sensitive-files
+                             Deploy even if secrets are detected
+      --skip-validation      Deploy even if site validation fails
+      --build                Build the project folder first and deploy its output
+      --timeout <seconds>    Maximum time to wait for the build (at least 1)
+      --dry-run              Only list what would be deployed; no token needed
+  deploy-html <file>       Deploy a single HTML file
+  deployments list         List the deployments of a project
+      --project <name> | --project-id <id>
+      --offset <n>           Deployments to skip (default 0)
+      --limit <n>            Deployments to return (default 20)
+  projects cleanup         List temporary local-upload-<timestamp> projects to delete
+      --older-than <days>    Only projects at least this old (default 7, 0 for all)
+      --delete               Delete the listed projects
+
+Options (before or after the command):
+  --token <token>          EdgeOne Pages API token (default EDGEONE_PAGES_API_TOKEN)
+  --json                   Print results as JSON
+  --verbose                Print the deployment log
+  -h, --help               Show this help
+
+Exit codes: 0 success, 1 failure (also a dry run the deploy would refuse),
+2 invalid usage, 3 build still in progress.`;
+
+const COMMANDS = ['deploy', 'deploy-html', 'deployments', 'projects', 'help'];
+const USAGE_HINT = 'Run "edgeone-pages-mcp --help" for usage.';
+
+class UsageError extends Error {}
+
+const CLI_OPTIONS = {
+  env: { type: 'string' },
+  project: { type: 'string' },
+  'project-id': { type: 'string' },
+  'reuse-temp-project': { type: 'boolean' },
+  include: { type: 'string', multiple: true },
+  exclude: { type: 'string', multiple: true },
+  'allow-sensitive-files': { type: 'boolean' },
+  'skip-validation': { type: 'boolean' },
+  build: { type: 'boolean' },
+  timeout: { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  offset: { type: 'string' },
+  limit: { type: 'string' },
+  'older-than': { type: 'string' },
+  delete: { type: 'boolean' },
+  token: { type: 'string' },
+  json: { type: 'boolean' },
+  verbose: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+// Options of the MCP server, so their values are not taken for a command
+const SERVER_OPTIONS = {
+  http: { type: 'boolean' },
+  port: { type: 'string' },
+  host: { type: 'string' },
+} as const;
+
+const parseCliArgs = (args: string[]) =>
+  parseArgs({ args, allowPositionals: true, options: CLI_OPTIONS });
+
+/**
+ * Find the command: the first positional argument, wherever the options are
+ */
+const findCommand = (args: string[]): string | undefined =>
+  parseArgs({
+    args,
+    allowPositionals: true,
+    strict: false,
+    options: { ...CLI_OPTIONS, ...SERVER_OPTIONS },
+  }).positionals[0];
+
+type CliArgs = ReturnType<typeof parseCliArgs>;
+
+const parseEnv = (value: string | undefined): DeployEnv => {
+  switch ((value || 'production').toLowerCase()) {
+    case 'production':
+      return 'Production';
+    case 'preview':
+      return 'Preview';
+    default:
+      throw new UsageError(
+        `Invalid --env "${value}". Use production or preview.`
+      );
+  }
+};
+
+const parseNumber = (
+  name: string,
+  value: string | undefined,
+  fallback?: number,
+  min = 0
+): number | undefined => {
+  if (value === undefined) {
+    return fallback;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new UsageError(`Invalid --${name} "${value}"`);
+  }
+  return number;
+};
+
+const printJson = (data: unknown) => {
+  process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+};
+
+const printProgress = (progress: DeployProgress) => {
+  process.stderr.write(`[${progress.progress}%] ${progress.message}\n`);
+};
+
+const formatDuration = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+const printDeployOutcome = ({ result }: DeployOutcome) => {
+  const lines: string[] = [];
+  if (result.type === 'pending') {
+    lines.push(
+      `Deployment ${result.deploymentId} is still in progress (${result.status}).`,
+      result.message
+    );
+  } else {
+    lines.push(
+      `Deployed to ${result.env}: ${result.url}`,
+      `Project:    ${result.projectName} (${result.projectId})`,
+      `Deployment: ${result.deploymentId} (${result.status})`
+    );
+  }
+  lines.push(`Console:    ${result.consoleUrl}`);
+  if (result.build) {
+    lines.push(
+      `Built:      ${result.build.framework || 'project'} in ${formatDuration(
+        result.build.durationMs
+      )}, deployed ${result.build.outputDir}`
+    );
+  }
+  if (result.timings) {
+    lines.push(
+      `Took ${formatDuration(result.timings.totalMs)} (upload ${formatDuration(
+        result.timings.uploadMs
+      )}, build ${formatDuration(result.timings.buildMs)})`
+    );
+  }
+  if (result.type !== 'pending' && result.warning) {
+    lines.push(`Warning: ${result.warning}`);
+  }
+  process.stdout.write(`${lines.join('\n')}\n`);
+};
+
+const printDryRun = ({ projectName, projectId, env, plan }: DryRunResult) => {
+  const lines = plan.files.map(
+    (file) => `  ${formatBytes(file.size).padStart(10)}  ${file.path}`
+  );
+  const project =
+    projectName && projectId
+      ? `${projectName} (${projectId})`
+      : projectName || projectId;
+  const creates =
+    plan.createsProject === null
+      ? 'unknown without an API token'
+      : plan.createsProject
+        ? 'yes'
+        : 'no';
+  lines.push(
+    '',
+    `Dry run: ${plan.fileCount} files, ${formatBytes(
+      plan.totalBytes
+    )} from ${plan.localPath}`,
+    `Target:  ${project}, ${env}`,
+    `Creates project: ${creates}`
+  );
+  if (plan.excluded.length > 0) {
+    lines.push(`Excluded: ${plan.excluded.join(', ')}`);
+  }
+  lines.push(...plan.notes);
+  process.stdout.write(`${lines.join('\n')}\n`);
+};
+
+const printDeployments = (result: ListDeploymentsResult) => {
+  if (result.deployments.length === 0) {
+    process.stdout.write(`No deployments in project ${result.projectId}\n`);
+    return;
+  }
+  const rows = result.deployments.map((deployment) => [
+    deployment.deploymentId,
+    deployment.env,
+    deployment.status,
+    deployment.createdOn,
+    deployment.usedInProd ? 'live' : '',
+  ]);
+  const header = ['DEPLOYMENT', 'ENV', 'STATUS', 'CREATED', ''];
+  const widths = header.map((_, column) =>
+    Math.max(...[header, ...rows].map((row) => row[column].length))
+  );
+  for (const row of [header, ...rows]) {
+    process.stdout.write(
+      `${row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()}\n`
+    );
+  }
+  if (result.pagination.hasMore) {
+    process.stdout.write(
+      `More deployments available, use --offset ${result.pagination.nextOffset}\n`
+    );
+  }
+};
+
+const printCleanup = (result: CleanupProjectsResult) => {
+  const lines = result.projects.map(
+    (project) =>
+      `  ${project.projectId}  ${project.name}  ${project.ageDays} days old`
+  );
+  if (result.projects.length === 0) {
+    lines.push(
+      `No temporary projects older than ${result.olderThanDays} days.`
+    );
+  } else if (result.dryRun) {
+    lines.push(
+      `${result.projects.length} temporary projects would be deleted. Run again with --delete to delete them.`
+    );
+  } else {
+    lines.push(`Deleted ${result.deleted.length} temporary projects.`);
+    for (const failure of result.failed) {
+      lines.push(`Failed to delete ${failure.projectId}: ${failure.error}`);
+    }
+  }
+  if (result.kept > 0) {
+    lines.push(`Kept ${result.kept} newer temporary projects.`);
+  }
+  process.stdout.write(`${lines.join('\n')}\n`);
+  return result.failed.length > 0 ? EXIT_FAILURE : EXIT_OK;
+};
+
+/**
+ * Resolve --project-id, or look up the ID of the project named by --project
+ */
+const resolveProjectId = async (values: CliArgs['values']) => {
+  if (values['project-id']) {
+    return values['project-id'];
+  }
+  if (!values.project) {
+    throw new UsageError('Missing --project or --project-id');
+  }
+  return withPagesApi(async () => {
+    const result = await describePagesProjects({
+      projectName: values.project,
+    });
+    const project = result?.Data?.Response?.Projects?.[0];
+    if (!project) {
+      throw new Error(`Project ${values.project} not found`);
+    }
+    return project.ProjectId;
+  });
+};
+
+const runDeploy = async (
+  { values, positionals }: CliArgs,
+  signal: AbortSignal
+): Promise<number> => {
+  const target = positionals[1];
+  if (!target) {
+    throw new UsageError('Missing the folder or zip file to deploy');
+  }
+  const env = parseEnv(values.env);
+  const project = {
+    projectName: values.project,
+    projectId: values['project-id'],
+    reuseTempProject: values['reuse-temp-project'],
+  };
+
+  if (values['dry-run']) {
+    if (values.build) {
+      throw new UsageError(
+        '--dry-run cannot be combined with --build: the build output is not known before building. Build the project and dry-run its output folder instead.'
+      );
+    }
+    const result = await dryRunFolderOrZip(path.resolve(target), env, project, {
+      include: values.include,
+      exclude: values.exclude,
+    });
+    if (values.json) {
+      printJson(result);
+    } else {
+      printDryRun(result);
+    }
+    // Fail like the deploy itself would, so CI can gate on the dry run
+    const refused =
+      (result.plan.validationIssues.length > 0 && !values['skip-validation']) ||
+      (result.plan.sensitiveFiles.length > 0 &&
+        !values['allow-sensitive-files']);
+    return refused ? EXIT_FAILURE : EXIT_OK;
+  }
+
+  const timeout = parseNumber('timeout', values.timeout, undefined, 1);
+  const outcome = await deployFolderOrZipToEdgeOne(
+    path.resolve(target),
+    env,
+    project,
+    {
+      include: values.include,
+      exclude: values.exclude,
+      allowSensitiveFiles: values['allow-sensitive-files'],
+      skipValidation: values['skip-validation'],
+      build: values.build,
+      signal,
+      timeoutMs: timeout !== undefined ? timeout * 1000 : undefined,
+      onProgress: values.json ? undefined : printProgress,
+    }
+  );
+
+  if (values.verbose) {
+    process.stderr.write(outcome.logs);
+  }
+  if (values.json) {
+    printJson(outcome.result);
+  } else {
+    printDeployOutcome(outcome);
+  }
+  return outcome.result.type === 'pending' ? EXIT_PENDING : EXIT_OK;
+};
+
+const runDeployHtml = async ({
+  values,
+  positionals,
+}: CliArgs): Promise<number> => {
+  const file = positionals[1];
+  if (!file) {
+    throw new UsageError('Missing the HTML file to deploy');
+  }
+  const html = await readFile(file, 'utf-8');
+  const url = await deployHtmlToEdgeOne(html);
+
+  if (values.json) {
+    printJson({ url });
+  } else {
+    process.stdout.write(`Deployed: ${url}\n`);
+  }
+  return EXIT_OK;
+};
+
+const runDeployments = async ({
+  values,
+  positionals,
+}: CliArgs): Promise<number> => {
+  if (positionals[1] !== 'list') {
+    throw new UsageError('Unknown deployments command. Use: deployments list');
+  }
+  const projectId = await resolveProjectId(values);
+  const result = await listDeployments(
+    projectId,
+    parseNumber('offset', values.offset, 0),
+    parseNumber('limit', values.limit, 20)
+  );
+
+  if (values.json) {
+    printJson(result);
+  } else {
+    printDeployments(result);
+  }
+  return EXIT_OK;
+};
+
+const runProjects = async ({
+  values,
+  positionals,
+}: CliArgs): Promise<number> => {
+  if (positionals[1] !== 'cleanup') {
+    throw new UsageError('Unknown projects command. Use: projects cleanup');
+  }
+  const result = await cleanupTemporaryProjects({
+    olderThanDays: parseNumber('older-than', values['older-than'], 7),
+    dryRun: !values.delete,
+  });
+
+  if (values.json) {
+    printJson(result);
+    return result.failed.length > 0 ? EXIT_FAILURE : EXIT_OK;
+  }
+  return printCleanup(result);
+};
+
+/**
+ * Run a CLI command from the command line arguments.
+ * Returns undefined when no command is given and the MCP server should start.
+ * @param args Arguments after the executable, e.g. process.argv.slice(2)
+ * @returns The process exit code
+ */
+export const runCli = async (args: string[]): Promise<number | undefined> => {
+  const command = findCommand(args);
+  if (!command) {
+    if (args.includes('--help') || args.includes('-h')) {
+      process.stdout.write(`${USAGE}\n`);
+      return EXIT_OK;
+    }
+    return undefined;
+  }
+  if (!COMMANDS.includes(command)) {
+    process.stderr.write(`Unknown command "${command}"\n${USAGE_HINT}\n`);
+    return EXIT_USAGE;
+  }
+
+  let parsed: CliArgs;
+  try {
+    parsed = parseCliArgs(args);
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n${USAGE_HINT}\n`);
+    return EXIT_USAGE;
+  }
+  if (command === 'help' || parsed.values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_OK;
+  }
+  if (parsed.values.token) {
+    process.env.EDGEONE_PAGES_API_TOKEN = parsed.values.token;
+  }
+
+  // Ctrl+C stops waiting for the build
+  const controller = new AbortController();
+  const onSignal = () => controller.abort();
+  process.once('SIGINT', onSignal);
+
+  try {
+    switch (command) {
+      case 'deploy':
+        return await runDeploy(parsed, controller.signal);
+      case 'deploy-html':
+        return await runDeployHtml(parsed);
+      case 'projects':
+        return await runProjects(parsed);
+      default:
+        return await runDeployments(parsed);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n${USAGE_HINT}\n`);
+      return EXIT_USAGE;
+    }
+    if (parsed.values.json) {
+      printJson({
+        error: {
+          code: error instanceof PagesError ? error.code : 'ERROR',
+          message: (error as Error)?.message || String(error),
+          requestId: error instanceof PagesError ? error.requestId : undefined,
+        },
+      });
+    } else {
+      process.stderr.write(`${formatToolError(error)}\n`);
+    }
+    return EXIT_FAILURE;
+  } finally {
+    process.off('SIGINT', onSignal);
+  }
+};
@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import path from 'path';
+import { getCacheDir } from './upload_manifest.js';
+
+export type PagesRegion = 'china' | 'global';
+
+export interface PagesEndpoint {
+  region: PagesRegion;
+  apiUrl: string;
+  consoleUrl: string;
+}
+
+const ENDPOINTS: Record<PagesRegion, PagesEndpoint> = {
+  china: {
+    region: 'china',
+    apiUrl: 'https://pages-api.cloud.tencent.com/v1',
+    consoleUrl: 'https://console.cloud.tencent.com',
+  },
+  global: {
+    region: 'global',
+    apiUrl: 'https://pages-api.edgeone.ai/v1',
+    consoleUrl: 'https://console.tencentcloud.com',
+  },
+};
+
+// Order in which endpoints are tried when nothing is configured
+export const AUTO_DETECT_REGIONS: PagesRegion[] = ['china', 'global'];
+
+const REGION_ALIASES: Record<string, PagesRegion> = {
+  china: 'china',
+  cn: 'china',
+  mainland: 'china',
+  global: 'global',
+  intl: 'global',
+  international: 'global',
+  overseas: 'global',
+};
+
+export const getRegionEndpoint = (region: PagesRegion): PagesEndpoint =>
+  ENDPOINTS[region];
+
+/**
+ * Parse a region name such as "china" or "global"
+ */
+export const parseRegion = (value: string): PagesRegion => {
+  const region = REGION_ALIASES[value.trim().toLowerCase()];
+  if (!region) {
+    throw new Error(
+      `Invalid EDGEONE_PAGES_REGION "${value}". Use "china" or "global".`
+    );
+  }
+  return region;
+};
+
+/**
+ * Endpoint set by EDGEONE_PAGES_API_URL and/or EDGEONE_PAGES_REGION.
+ * A custom API URL (private gateway, local stand-in) takes precedence and uses
+ * the console of the configured region, China by default.
+ * Returns undefined when neither is set and the endpoint must be detected.
+ */
+export const getConfiguredEndpoint = (): PagesEndpoint | undefined => {
+  const regionValue = process.env.EDGEONE_PAGES_REGION;
+  const apiUrl = process.env.EDGEONE_PAGES_API_URL;
+  const region = regionValue ? parseRegion(regionValue) : undefined;
+
+  if (apiUrl) {
+    try {
+      new URL(apiUrl);
+    } catch (error) {
+      throw new Error(`Invalid EDGEONE_PAGES_API_URL "${apiUrl}"`);
+    }
+    return {
+      ...ENDPOINTS[region || 'china'],
+      apiUrl: apiUrl.replace(/\/+$/, ''),
+    };
+  }
+  return region ? ENDPOINTS[region] : undefined;
+};
+
+// Detected regions are cached per token, never storing the token itself
+const getEndpointCachePath = (): string =>
+  path.join(getCacheDir(), 'endpoints.json');
+
+const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+const readEndpointCache = async (): Promise<Record<string, PagesRegion>> => {
+  try {
+    return JSON.parse(await fs.readFile(getEndpointCachePath(), 'utf-8'));
+  } catch (error) {
+    return {};
+  }
+};
+
+/**
+ * Load the region previously detected for a token
+ */
+export const loadDetectedRegion = async (
+  token: string
+): Promise<PagesRegion | undefined> => {
+  const region = (await readEndpointCache())[hashToken(token)];
+  return region && ENDPOINTS[region] ? region : undefined;
+};
+
+/**
+ * Remember the region detected for a token so later runs skip detection
+ */
+export const saveDetectedRegion = async (
+  token: string,
+  region: PagesRegion
+): Promise<void> => {
+  const cache = await readEndpointCache();
+  cache[hashToken(token)] = region;
+  await fs.mkdir(path.dirname(getEndpointCachePath()), { recursive: true });
+  await fs.writeFile(getEndpointCachePath(), JSON.stringify(cache, null, 2));
+};
@@ -0,0 +1,222 @@
+import { sleep } from './utils.js';
+
+export type PagesErrorCode =
+  | 'AUTH_FAILED'
+  | 'PROJECT_NOT_FOUND'
+  | 'QUOTA_EXCEEDED'
+  | 'RATE_LIMITED'
+  | 'TRANSIENT'
+  | 'BUILD_FAILED'
+  | 'API_ERROR';
+
+export interface PagesErrorDetails {
+  // RequestId of the failed API call, for support tickets
+  requestId?: string;
+  // HTTP status of the failed API call
+  status?: number;
+  // Error code reported by the API, e.g. AuthFailure.TokenFailure
+  apiCode?: string;
+  // Milliseconds the API asked us to wait before retrying
+  retryAfterMs?: number;
+}
+
+/**
+ * Base class of the errors raised for EdgeOne Pages API failures.
+ * The code is stable and meant to be matched on by callers.
+ */
+export class PagesError extends Error {
+  readonly code: PagesErrorCode;
+  readonly requestId?: string;
+  readonly status?: number;
+  readonly apiCode?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    code: PagesErrorCode,
+    message: string,
+    details: PagesErrorDetails = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.requestId = details.requestId;
+    this.status = details.status;
+    this.apiCode = details.apiCode;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  // Whether repeating the same request may succeed
+  get retryable(): boolean {
+    return this.code === 'TRANSIENT' || this.code === 'RATE_LIMITED';
+  }
+}
+
+export class AuthError extends PagesError {
+  constructor(message: string, details?: PagesErrorDetails) {
+    super('AUTH_FAILED', message, details);
+  }
+}
+
+export class ProjectNotFoundError extends PagesError {
+  constructor(message: string, details?: PagesErrorDetails) {
+    super('PROJECT_NOT_FOUND', message, details);
+  }
+}
+
+export class QuotaExceededError extends PagesError {
+  constructor(message: string, details?: PagesErrorDetails) {
+    super('QUOTA_EXCEEDED', message, details);
+  }
+}
+
+export class RateLimitError extends PagesError {
+  constructor(message: string, details?: PagesErrorDetails) {
+    super('RATE_LIMITED', message, details);
+  }
+}
+
+export class TransientError extends PagesError {
+  constructor(message: string, details?: PagesErrorDetails) {
+    super('TRANSIENT', message, details);
+  }
+}
+
+export class BuildFailedError extends PagesError {
+  readonly deploymentId?: string;
+
+  constructor(
+    message: string,
+    details: PagesErrorDetails & { deploymentId?: string } = {}
+  ) {
+    super('BUILD_FAILED', message, details);
+    this.deploymentId = details.deploymentId;
+  }
+}
+
+/**
+ * Map a failed API call to a typed error from its HTTP status and API error code
+ * @param message Error message, prefixed with the API action
+ * @param action The API action, e.g. DescribePagesProjects. Missing resources
+ * are only reported as PROJECT_NOT_FOUND for project actions, or when the API
+ * error code names the project.
+ */
+export const classifyApiError = (
+  message: string,
+  details: PagesErrorDetails = {},
+  action = ''
+): PagesError => {
+  const { status, apiCode = '' } = details;
+
+  if (status === 429 || /^RequestLimitExceeded|Throttl/i.test(apiCode)) {
+    return new RateLimitError(message, details);
+  }
+  if (
+    status === 401 ||
+    status === 403 ||
+    /^(AuthFailure|UnauthorizedOperation)/.test(apiCode)
+  ) {
+    return new AuthError(message, details);
+  }
+  if (status === 404 || /^ResourceNotFound/.test(apiCode)) {
+    return /Project/.test(action) || /Project/i.test(apiCode)
+      ? new ProjectNotFoundError(message, details)
+      : new PagesError('API_ERROR', message, details);
+  }
+  if (/^(LimitExceeded|ResourceInsufficient)|Quota/i.test(apiCode)) {
+    return new QuotaExceededError(message, details);
+  }
+  if (
+    (status !== undefined && status >= 500) ||
+    /^(InternalError|ServiceUnavailable|ResourceUnavailable)|Timeout/i.test(
+      apiCode
+    )
+  ) {
+    return new TransientError(message, details);
+  }
+  return new PagesError('API_ERROR', message, details);
+};
+
+/**
+ * Parse a Retry-After header into milliseconds
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+export interface RetryOptions {
+  // Retries after the first attempt
+  retries?: number;
+  signal?: AbortSignal;
+  // Which errors to retry; defaults to the retryable ones
+  shouldRetry?: (error: PagesError) => boolean;
+  onRetry?: (error: PagesError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Run an API call, retrying transient failures and rate limits with
+ * exponential backoff and full jitter. Other errors are thrown immediately.
+ */
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> => {
+  const {
+    retries = RETRY_ATTEMPTS,
+    signal,
+    shouldRetry = (error: PagesError) => error.retryable,
+    onRetry,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (
+        !(error instanceof PagesError) ||
+        !shouldRetry(error) ||
+        attempt >= retries ||
+        signal?.aborted
+      ) {
+        throw error;
+      }
+      const backoff = Math.min(
+        RETRY_BASE_DELAY_MS * 2 ** attempt,
+        RETRY_MAX_DELAY_MS
+      );
+      const delayMs = Math.max(
+        Math.round(Math.random() * backoff),
+        Math.min(error.retryAfterMs ?? 0, RETRY_MAX_DELAY_MS)
+      );
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
+
+/**
+ * Format an error for a tool result, with its code and API RequestId
+ */
+export const formatToolError = (error: unknown): string => {
+  const message =
+    (error instanceof Error && error.message) || 'Unknown error occurred';
+  if (!(error instanceof PagesError)) {
+    return `Error: ${message}`;
+  }
+  const lines = [`Error [${error.code}]: ${message}`];
+  if (error.requestId) {
+    lines.push(`RequestId: ${error.requestId}`);
+  }
+  return lines.join('\n');
+};
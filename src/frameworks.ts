@@ -0,0 +1,162 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * A frontend framework whose source folders need a build before deploying
+ */
+export interface Framework {
+  id: string;
+  name: string;
+  // Folders the build writes the static site to, relative to the project root
+  outputDirs: string[];
+}
+
+interface FrameworkRule extends Framework {
+  dependencies: string[];
+  // Config files at the project root that identify the framework
+  configFiles?: RegExp;
+}
+
+// Checked in order: frameworks built on Vite come before Vite itself
+const FRAMEWORK_RULES: FrameworkRule[] = [
+  {
+    id: 'nextjs',
+    name: 'Next.js',
+    outputDirs: ['out'],
+    dependencies: ['next'],
+    configFiles: /^next\.config\.(js|cjs|mjs|ts)$/,
+  },
+  {
+    id: 'nuxt',
+    name: 'Nuxt',
+    outputDirs: ['.output/public', 'dist'],
+    dependencies: ['nuxt'],
+    configFiles: /^nuxt\.config\.(js|mjs|ts)$/,
+  },
+  {
+    id: 'astro',
+    name: 'Astro',
+    outputDirs: ['dist'],
+    dependencies: ['astro'],
+    configFiles: /^astro\.config\.(js|cjs|mjs|ts)$/,
+  },
+  {
+    id: 'sveltekit',
+    name: 'SvelteKit',
+    outputDirs: ['build'],
+    dependencies: ['@sveltejs/kit'],
+    configFiles: /^svelte\.config\.(js|cjs|mjs|ts)$/,
+  },
+  {
+    id: 'vitepress',
+    name: 'VitePress',
+    outputDirs: ['.vitepress/dist', 'docs/.vitepress/dist'],
+    dependencies: ['vitepress'],
+    configFiles: /^\.vitepress$/,
+  },
+  {
+    id: 'docusaurus',
+    name: 'Docusaurus',
+    outputDirs: ['build'],
+    dependencies: ['@docusaurus/core'],
+    configFiles: /^docusaurus\.config\.(js|cjs|mjs|ts)$/,
+  },
+  {
+    id: 'gatsby',
+    name: 'Gatsby',
+    outputDirs: ['public'],
+    dependencies: ['gatsby'],
+    configFiles: /^gatsby-config\.(js|cjs|mjs|ts)$/,
+  },
+  {
+    id: 'angular',
+    name: 'Angular',
+    outputDirs: ['dist'],
+    dependencies: ['@angular/core'],
+    configFiles: /^angular\.json$/,
+  },
+  {
+    id: 'cra',
+    name: 'Create React App',
+    outputDirs: ['build'],
+    dependencies: ['react-scripts'],
+  },
+  {
+    id: 'vue-cli',
+    name: 'Vue CLI',
+    outputDirs: ['dist'],
+    dependencies: ['@vue/cli-service'],
+    configFiles: /^vue\.config\.(js|cjs|mjs|ts)$/,
+  },
+  {
+    id: 'vite',
+    name: 'Vite',
+    outputDirs: ['dist'],
+    dependencies: ['vite'],
+    configFiles: /^vite\.config\.(js|cjs|mjs|ts|mts)$/,
+  },
+];
+
+const toFramework = ({ id, name, outputDirs }: FrameworkRule): Framework => ({
+  id,
+  name,
+  outputDirs,
+});
+
+/**
+ * Read the dependencies and devDependencies of a package.json
+ * Returns undefined when there is no readable package.json.
+ */
+export const readPackageDependencies = async (
+  rootPath: string
+): Promise<string[] | undefined> => {
+  try {
+    const pkg = JSON.parse(
+      await fs.readFile(path.join(rootPath, 'package.json'), 'utf-8')
+    );
+    return [
+      ...Object.keys(pkg.dependencies || {}),
+      ...Object.keys(pkg.devDependencies || {}),
+    ];
+  } catch (error) {
+    return undefined;
+  }
+};
+
+/**
+ * Detect the framework of a source folder from the dependencies in its
+ * package.json, falling back to well-known config files at its root
+ */
+export const detectFramework = async (
+  rootPath: string
+): Promise<Framework | undefined> => {
+  const dependencies = await readPackageDependencies(rootPath);
+  if (dependencies) {
+    const rule = FRAMEWORK_RULES.find((candidate) =>
+      candidate.dependencies.some((name) => dependencies.includes(name))
+    );
+    if (rule) {
+      return toFramework(rule);
+    }
+  }
+
+  let entries: string[];
+  try {
+    entries = await fs.readdir(rootPath);
+  } catch (error) {
+    return undefined;
+  }
+  return detectFrameworkFromFiles(entries);
+};
+
+/**
+ * Detect a framework from the file names at the root of a folder or zip file
+ */
+export const detectFrameworkFromFiles = (
+  fileNames: string[]
+): Framework | undefined => {
+  const rule = FRAMEWORK_RULES.find((candidate) =>
+    fileNames.some((name) => candidate.configFiles?.test(name))
+  );
+  return rule ? toFramework(rule) : undefined;
+};
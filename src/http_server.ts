@@ -0,0 +1,412 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+const MCP_PATH = '/mcp';
+const HEALTH_PATH = '/health';
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+const SHUTDOWN_TIMEOUT_MS = 10000;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  // Bearer token required on the MCP endpoint; no authentication when unset
+  token?: string;
+  // Extra Host header values accepted besides the loopback names
+  allowedHosts: string[];
+  // Sessions without requests for this long are closed
+  sessionIdleTimeoutMs: number;
+}
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  lastActiveAt: number;
+  activeRequests: number;
+}
+
+/**
+ * Check whether the server should run in Streamable HTTP mode.
+ * Enabled with the `--http` flag or `MCP_TRANSPORT=http`.
+ */
+export const isHttpMode = (argv: string[] = process.argv): boolean => {
+  if (argv.includes('--http')) {
+    return true;
+  }
+  return (process.env.MCP_TRANSPORT || '').toLowerCase() === 'http';
+};
+
+/**
+ * Resolve the HTTP listen options from `--port`/`--host` flags,
+ * falling back to the `PORT`/`HOST` environment variables.
+ * Authentication and host validation come from `MCP_HTTP_TOKEN`,
+ * `MCP_HTTP_ALLOWED_HOSTS` and `MCP_HTTP_SESSION_TIMEOUT`.
+ */
+export const getHttpServerOptions = (
+  argv: string[] = process.argv
+): HttpServerOptions => {
+  const getFlag = (name: string): string | undefined => {
+    const index = argv.indexOf(name);
+    return index !== -1 ? argv[index + 1] : undefined;
+  };
+
+  const port = Number(getFlag('--port') || process.env.PORT || 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${getFlag('--port') || process.env.PORT}`);
+  }
+
+  const idleSeconds = Number(process.env.MCP_HTTP_SESSION_TIMEOUT);
+  return {
+    port,
+    host: getFlag('--host') || process.env.HOST || '127.0.0.1',
+    token: process.env.MCP_HTTP_TOKEN || undefined,
+    allowedHosts: (process.env.MCP_HTTP_ALLOWED_HOSTS || '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean),
+    sessionIdleTimeoutMs:
+      Number.isFinite(idleSeconds) && idleSeconds > 0
+        ? idleSeconds * 1000
+        : DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+  };
+};
+
+/**
+ * Host header values accepted for a host name: the name itself and the name
+ * with the listen port, unless a port is given. IPv6 addresses get brackets.
+ */
+const toHostHeaders = (host: string, port: number): string[] => {
+  if (/^(\[[^\]]+\]|[^:]+):\d+$/.test(host)) {
+    return [host];
+  }
+  const name = host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+  return [name, `${name}:${port}`];
+};
+
+/**
+ * Host header values accepted for DNS rebinding protection: the loopback
+ * names, the listen host and the hosts from `MCP_HTTP_ALLOWED_HOSTS`
+ */
+const getAllowedHostHeaders = (
+  options: HttpServerOptions,
+  port: number
+): string[] => [
+  ...new Set(
+    [...LOOPBACK_HOSTS, options.host, ...options.allowedHosts].flatMap((host) =>
+      toHostHeaders(host, port)
+    )
+  ),
+];
+
+const hashToken = (token: string): Buffer =>
+  createHash('sha256').update(token).digest();
+
+/**
+ * Check the `Authorization: Bearer <token>` header in constant time
+ */
+const isAuthorized = (req: IncomingMessage, token: string): boolean => {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  return (
+    !!match && timingSafeEqual(hashToken(match[1].trim()), hashToken(token))
+  );
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendJsonRpcError = (
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+) => {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const raw = Buffer.concat(chunks).toString('utf-8');
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch (error) {
+        reject(new Error('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+/**
+ * Serve the MCP server over Streamable HTTP.
+ * Every client session gets its own McpServer instance created by `createServer`.
+ */
+export const startHttpServer = async (
+  createServer: () => McpServer,
+  options: HttpServerOptions
+): Promise<http.Server> => {
+  const sessions = new Map<string, Session>();
+  let allowedHosts: string[] = [];
+  // POST requests being handled, including tool calls such as deploys
+  let activeRequests = 0;
+  let onRequestsDrained: (() => void) | undefined;
+
+  /**
+   * Count a request until its response closes. Sessions with open requests
+   * or streams are not idle; shutdown waits for POST requests only.
+   */
+  const trackRequest = (
+    res: ServerResponse,
+    session: Session | undefined,
+    awaitOnShutdown: boolean
+  ) => {
+    if (awaitOnShutdown) {
+      activeRequests++;
+    }
+    if (session) {
+      session.activeRequests++;
+    }
+    res.once('close', () => {
+      if (session) {
+        session.activeRequests--;
+        session.lastActiveAt = Date.now();
+      }
+      if (awaitOnShutdown && --activeRequests === 0) {
+        onRequestsDrained?.();
+      }
+    });
+  };
+
+  const closeSession = async (sessionId: string, session: Session) => {
+    sessions.delete(sessionId);
+    try {
+      await session.transport.close();
+      await session.server.close();
+    } catch (error) {
+      console.error(`Error closing session ${sessionId}:`, error);
+    }
+  };
+
+  const handleMcpRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse
+  ) => {
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader)
+      ? sessionIdHeader[0]
+      : sessionIdHeader;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (session) {
+      session.lastActiveAt = Date.now();
+    }
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${message}`);
+        return;
+      }
+
+      if (session) {
+        trackRequest(res, session, true);
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId || !isInitializeRequest(body)) {
+        sendJsonRpcError(
+          res,
+          sessionId ? 404 : 400,
+          -32000,
+          sessionId
+            ? `Session not found: ${sessionId}`
+            : 'Bad Request: No valid session ID provided'
+        );
+        return;
+      }
+
+      const server = createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        enableDnsRebindingProtection: true,
+        allowedHosts,
+        onsessioninitialized: (newSessionId) => {
+          sessions.set(newSessionId, {
+            server,
+            transport,
+            lastActiveAt: Date.now(),
+            activeRequests: 0,
+          });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+        }
+      };
+
+      trackRequest(res, undefined, true);
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!session) {
+        sendJsonRpcError(
+          res,
+          sessionId ? 404 : 400,
+          -32000,
+          sessionId
+            ? `Session not found: ${sessionId}`
+            : 'Bad Request: Missing mcp-session-id header'
+        );
+        return;
+      }
+      trackRequest(res, session, req.method === 'DELETE');
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    sendJsonRpcError(res, 405, -32000, 'Method not allowed.');
+  };
+
+  let shuttingDown = false;
+  const httpServer = http.createServer((req, res) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    if (pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+      return;
+    }
+
+    if (pathname !== MCP_PATH) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (shuttingDown) {
+      res.setHeader('Connection', 'close');
+      sendJsonRpcError(res, 503, -32000, 'Server is shutting down');
+      return;
+    }
+
+    if (options.token && !isAuthorized(req, options.token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized');
+      return;
+    }
+
+    handleMcpRequest(req, res).catch((error) => {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  // Close sessions whose client went away without ending them
+  const sweepTimer = setInterval(
+    () => {
+      const idleBefore = Date.now() - options.sessionIdleTimeoutMs;
+      for (const [sessionId, session] of sessions) {
+        if (session.activeRequests === 0 && session.lastActiveAt < idleBefore) {
+          console.error(`Closing idle session ${sessionId}`);
+          closeSession(sessionId, session);
+        }
+      }
+    },
+    Math.min(SESSION_SWEEP_INTERVAL_MS, options.sessionIdleTimeoutMs)
+  );
+  sweepTimer.unref();
+
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    console.error(`Received ${signal}, shutting down HTTP server...`);
+
+    const forceExit = setTimeout(() => {
+      console.error('Forcing shutdown after timeout');
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS);
+    forceExit.unref();
+    clearInterval(sweepTimer);
+
+    // Stop accepting connections, then let running tool calls finish
+    const closed = new Promise<void>((resolve) =>
+      httpServer.close(() => resolve())
+    );
+    httpServer.closeIdleConnections();
+    if (activeRequests > 0) {
+      console.error(
+        `Waiting for ${activeRequests} request(s) in progress to finish...`
+      );
+      await new Promise<void>((resolve) => {
+        onRequestsDrained = resolve;
+      });
+    }
+
+    for (const [sessionId, session] of sessions) {
+      await closeSession(sessionId, session);
+    }
+    // Only idle keep-alive connections and ended streams are left
+    httpServer.closeAllConnections();
+    await closed;
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port =
+    typeof address === 'object' && address ? address.port : options.port;
+  allowedHosts = getAllowedHostHeaders(options, port);
+
+  console.error(
+    `EdgeOne Pages MCP server listening on http://${options.host}:${port}${MCP_PATH}`
+  );
+  if (!options.token && !LOOPBACK_HOSTS.includes(options.host)) {
+    console.error(
+      `Warning: listening on ${options.host} without authentication. Set MCP_HTTP_TOKEN to require a bearer token.`
+    );
+  }
+  return httpServer;
+};
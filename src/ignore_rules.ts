@@ -0,0 +1,88 @@
+import ignore, { Ignore } from 'ignore';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Ignore files read from the root of the deployed folder, in order
+const IGNORE_FILES = ['.gitignore', '.edgeoneignore'];
+
+// Never worth publishing: VCS metadata, dependencies, secrets, source maps and OS junk
+const DEFAULT_IGNORE_PATTERNS = [
+  '.git/',
+  '.svn/',
+  '.hg/',
+  'node_modules/',
+  '.env',
+  '.env.*',
+  '*.map',
+  '.DS_Store',
+  'Thumbs.db',
+  'desktop.ini',
+  'npm-debug.log*',
+  'yarn-debug.log*',
+  'yarn-error.log*',
+  ...IGNORE_FILES,
+];
+
+export interface IgnoreOptions {
+  // Glob patterns (gitignore syntax); when set, only matching files are deployed
+  include?: string[];
+  // Glob patterns (gitignore syntax) excluded in addition to the ignore files
+  exclude?: string[];
+}
+
+/**
+ * Decides which paths of a folder deployment are uploaded.
+ * Paths are relative to the deployed folder and use forward slashes.
+ */
+export interface IgnoreMatcher {
+  // Whether a file or directory is excluded from the deployment
+  isIgnored(relativePath: string, isDir: boolean): boolean;
+  // Excluded paths seen so far; directories are listed once, with a trailing slash
+  excluded: string[];
+}
+
+const readIgnoreFile = async (filePath: string): Promise<string> => {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    return '';
+  }
+};
+
+/**
+ * Build the ignore matcher for a folder from the default patterns,
+ * its .gitignore/.edgeoneignore files and the include/exclude globs
+ */
+export const createIgnoreMatcher = async (
+  rootPath: string,
+  options: IgnoreOptions = {}
+): Promise<IgnoreMatcher> => {
+  const rules: Ignore = ignore().add(DEFAULT_IGNORE_PATTERNS);
+  for (const file of IGNORE_FILES) {
+    rules.add(await readIgnoreFile(path.join(rootPath, file)));
+  }
+  if (options.exclude?.length) {
+    rules.add(options.exclude);
+  }
+
+  const includeRules: Ignore | undefined = options.include?.length
+    ? ignore().add(options.include)
+    : undefined;
+
+  const excluded: string[] = [];
+
+  return {
+    excluded,
+    isIgnored(relativePath: string, isDir: boolean): boolean {
+      const testPath = isDir ? `${relativePath}/` : relativePath;
+      const ignored =
+        rules.ignores(testPath) ||
+        // Include globs only filter files; directories are walked to find them
+        (!isDir && !!includeRules && !includeRules.ignores(testPath));
+      if (ignored) {
+        excluded.push(testPath);
+      }
+      return ignored;
+    },
+  };
+};
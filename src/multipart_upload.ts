@@ -0,0 +1,396 @@
+import COS from 'cos-nodejs-sdk-v5';
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import path from 'path';
+import { getCacheDir } from './upload_manifest.js';
+import { sleep } from './utils.js';
+
+const MB = 1024 * 1024;
+const DEFAULT_PART_SIZE_MB = 8;
+const DEFAULT_CONCURRENCY = 4;
+// COS limits: parts of at least 1 MB (except the last), at most 10000 parts
+const MIN_PART_SIZE = MB;
+const MAX_PARTS = 10000;
+const PART_ATTEMPTS = 4;
+// Checkpoints not updated for this long belong to uploads that will not be
+// resumed, e.g. because the next deploy got a different target path
+const CHECKPOINT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Progress of a multipart upload, reported after every finished part
+ */
+export interface PartProgress {
+  partNumber: number;
+  totalParts: number;
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+export interface MultipartUploadOptions {
+  cos: COS;
+  bucket: string;
+  region: string;
+  key: string;
+  filePath: string;
+  partSize?: number;
+  concurrency?: number;
+  signal?: AbortSignal;
+  onPart?: (progress: PartProgress) => void;
+  log?: (message: string) => void;
+}
+
+/**
+ * State of an unfinished multipart upload, stored after every part so an
+ * interrupted upload of the same file to the same object can continue where
+ * it stopped
+ */
+interface UploadCheckpoint {
+  filePath: string;
+  size: number;
+  mtimeMs: number;
+  bucket: string;
+  region: string;
+  key: string;
+  uploadId: string;
+  partSize: number;
+  parts: Record<number, string>;
+}
+
+const readPositiveNumber = (value: string | undefined): number | undefined => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+/**
+ * Part size from EDGEONE_PAGES_UPLOAD_PART_SIZE_MB (default 8 MB)
+ */
+export const getUploadPartSize = (): number =>
+  Math.round(
+    (readPositiveNumber(process.env.EDGEONE_PAGES_UPLOAD_PART_SIZE_MB) ||
+      DEFAULT_PART_SIZE_MB) * MB
+  );
+
+/**
+ * Parts uploaded in parallel, from EDGEONE_PAGES_UPLOAD_CONCURRENCY (default 4)
+ */
+export const getUploadConcurrency = (): number =>
+  Math.floor(
+    readPositiveNumber(process.env.EDGEONE_PAGES_UPLOAD_CONCURRENCY) ||
+      DEFAULT_CONCURRENCY
+  );
+
+type CheckpointTarget = Pick<UploadCheckpoint, 'filePath' | 'bucket' | 'key'>;
+
+// One checkpoint per file and target object, so uploads of the same file to
+// different projects or target paths never share one
+const getCheckpointDir = () => path.join(getCacheDir(), 'checkpoints');
+
+const getCheckpointPath = ({ filePath, bucket, key }: CheckpointTarget) =>
+  path.join(
+    getCheckpointDir(),
+    `${createHash('sha256')
+      .update(`${path.resolve(filePath)}\n${bucket}/${key}`)
+      .digest('hex')}.json`
+  );
+
+const loadCheckpoint = async (
+  target: CheckpointTarget
+): Promise<UploadCheckpoint | undefined> => {
+  try {
+    const raw = await fs.readFile(getCheckpointPath(target), 'utf-8');
+    return JSON.parse(raw) as UploadCheckpoint;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const saveCheckpoint = async (checkpoint: UploadCheckpoint): Promise<void> => {
+  const checkpointPath = getCheckpointPath(checkpoint);
+  await fs.mkdir(path.dirname(checkpointPath), { recursive: true });
+  await fs.writeFile(checkpointPath, JSON.stringify(checkpoint, null, 2));
+};
+
+const removeCheckpoint = async (target: CheckpointTarget): Promise<void> => {
+  await fs.rm(getCheckpointPath(target), { force: true });
+};
+
+/**
+ * Abort the upload of a checkpoint that cannot be resumed and remove it
+ */
+const discardCheckpoint = async (
+  cos: COS,
+  checkpoint: UploadCheckpoint,
+  target: CheckpointTarget
+): Promise<void> => {
+  try {
+    await cos.multipartAbort({
+      Bucket: checkpoint.bucket,
+      Region: checkpoint.region,
+      Key: checkpoint.key,
+      UploadId: checkpoint.uploadId,
+    });
+  } catch (error) {
+    // Already completed, aborted or expired
+  }
+  await removeCheckpoint(target);
+};
+
+/**
+ * Abort and remove checkpoints that have not been updated for a day.
+ * Uploads in progress save their checkpoint after every part, so only
+ * abandoned uploads are swept.
+ */
+const sweepStaleCheckpoints = async (
+  cos: COS,
+  current: CheckpointTarget
+): Promise<void> => {
+  let names: string[];
+  try {
+    names = await fs.readdir(getCheckpointDir());
+  } catch (error) {
+    return;
+  }
+  const currentPath = getCheckpointPath(current);
+  for (const name of names) {
+    const checkpointPath = path.join(getCheckpointDir(), name);
+    if (checkpointPath === currentPath || !name.endsWith('.json')) {
+      continue;
+    }
+    try {
+      const { mtimeMs } = await fs.stat(checkpointPath);
+      if (Date.now() - mtimeMs < CHECKPOINT_MAX_AGE_MS) {
+        continue;
+      }
+      const checkpoint = JSON.parse(
+        await fs.readFile(checkpointPath, 'utf-8')
+      ) as UploadCheckpoint;
+      await discardCheckpoint(cos, checkpoint, checkpoint);
+    } catch (error) {
+      await fs.rm(checkpointPath, { force: true });
+    }
+  }
+};
+
+/**
+ * List the parts COS already has for an upload.
+ * Returns undefined when the upload no longer exists or is not accessible.
+ */
+const listUploadedParts = async (
+  cos: COS,
+  checkpoint: UploadCheckpoint
+): Promise<Record<number, string> | undefined> => {
+  const parts: Record<number, string> = {};
+  let marker: string | undefined;
+  try {
+    do {
+      const result = await cos.multipartListPart({
+        Bucket: checkpoint.bucket,
+        Region: checkpoint.region,
+        Key: checkpoint.key,
+        UploadId: checkpoint.uploadId,
+        PartNumberMarker: marker,
+      });
+      for (const part of result.Part || []) {
+        parts[Number(part.PartNumber)] = part.ETag;
+      }
+      marker =
+        result.IsTruncated === 'true'
+          ? String(result.NextPartNumberMarker)
+          : undefined;
+    } while (marker);
+  } catch (error) {
+    return undefined;
+  }
+  return parts;
+};
+
+/**
+ * Find an unfinished upload of the same, unchanged file to the same object
+ * that can be resumed. Uploads that cannot be resumed are aborted.
+ */
+const resumeCheckpoint = async (
+  opts: MultipartUploadOptions,
+  stats: { size: number; mtimeMs: number },
+  partSize: number
+): Promise<UploadCheckpoint | undefined> => {
+  const checkpoint = await loadCheckpoint(opts);
+  if (!checkpoint) {
+    return undefined;
+  }
+  if (
+    checkpoint.size !== stats.size ||
+    checkpoint.mtimeMs !== stats.mtimeMs ||
+    checkpoint.bucket !== opts.bucket ||
+    checkpoint.region !== opts.region ||
+    checkpoint.key !== opts.key ||
+    checkpoint.partSize !== partSize
+  ) {
+    await discardCheckpoint(opts.cos, checkpoint, opts);
+    return undefined;
+  }
+
+  const parts = await listUploadedParts(opts.cos, checkpoint);
+  if (!parts) {
+    await removeCheckpoint(opts);
+    return undefined;
+  }
+  return { ...checkpoint, parts };
+};
+
+const readPart = async (
+  filePath: string,
+  start: number,
+  length: number
+): Promise<Buffer> => {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, start);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Upload a large file to COS in parts, reading one part at a time.
+ * Failed parts are retried; when the upload is interrupted, the next upload of
+ * the same file to the same key resumes from its checkpoint and skips the
+ * parts COS already has. Checkpoints abandoned for a day are aborted.
+ * @returns The object key the file was uploaded to
+ */
+export const uploadFileMultipart = async (
+  opts: MultipartUploadOptions
+): Promise<{ key: string; resumedParts: number }> => {
+  const { cos, filePath, signal, onPart, log = () => {} } = opts;
+  const concurrency = Math.max(1, opts.concurrency || getUploadConcurrency());
+  const stats = await fs.stat(filePath);
+  const partSize = Math.max(
+    opts.partSize || getUploadPartSize(),
+    MIN_PART_SIZE,
+    Math.ceil(stats.size / MAX_PARTS)
+  );
+  const totalParts = Math.max(1, Math.ceil(stats.size / partSize));
+
+  await sweepStaleCheckpoints(cos, opts);
+  let checkpoint = await resumeCheckpoint(opts, stats, partSize);
+  const resumedParts = checkpoint ? Object.keys(checkpoint.parts).length : 0;
+  if (checkpoint) {
+    log(
+      `Resuming upload of ${checkpoint.key}: ${resumedParts}/${totalParts} parts already uploaded`
+    );
+  } else {
+    const { UploadId } = await cos.multipartInit({
+      Bucket: opts.bucket,
+      Region: opts.region,
+      Key: opts.key,
+    });
+    checkpoint = {
+      filePath,
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      bucket: opts.bucket,
+      region: opts.region,
+      key: opts.key,
+      uploadId: UploadId,
+      partSize,
+      parts: {},
+    };
+    await saveCheckpoint(checkpoint);
+  }
+  const state = checkpoint;
+
+  const partLength = (partNumber: number) =>
+    Math.min(partSize, stats.size - (partNumber - 1) * partSize);
+  let uploadedBytes = Object.keys(state.parts).reduce(
+    (total, partNumber) => total + partLength(Number(partNumber)),
+    0
+  );
+
+  // Checkpoint writes are chained so they never interleave
+  let saving = Promise.resolve();
+
+  const uploadPart = async (partNumber: number): Promise<void> => {
+    const length = partLength(partNumber);
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) {
+        throw new Error('Operation cancelled');
+      }
+      try {
+        const body = await readPart(
+          filePath,
+          (partNumber - 1) * partSize,
+          length
+        );
+        const { ETag } = await cos.multipartUpload({
+          Bucket: state.bucket,
+          Region: state.region,
+          Key: state.key,
+          UploadId: state.uploadId,
+          PartNumber: partNumber,
+          Body: body,
+          ContentLength: body.length,
+        });
+        state.parts[partNumber] = ETag;
+        break;
+      } catch (error) {
+        if (attempt >= PART_ATTEMPTS || signal?.aborted) {
+          throw error;
+        }
+        log(
+          `Part ${partNumber}/${totalParts} failed, retrying (attempt ${
+            attempt + 1
+          }/${PART_ATTEMPTS}): ${(error as Error)?.message || error}`
+        );
+        await sleep(1000 * 2 ** (attempt - 1), signal);
+      }
+    }
+
+    uploadedBytes += length;
+    saving = saving.then(() => saveCheckpoint(state)).catch(() => {});
+    onPart?.({ partNumber, totalParts, uploadedBytes, totalBytes: stats.size });
+  };
+
+  const queue: number[] = [];
+  for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+    if (!state.parts[partNumber]) {
+      queue.push(partNumber);
+    }
+  }
+
+  // Stop handing out parts once one has failed for good
+  let failure: unknown;
+  const worker = async (): Promise<void> => {
+    let partNumber = queue.shift();
+    while (partNumber !== undefined && !failure) {
+      try {
+        await uploadPart(partNumber);
+      } catch (error) {
+        failure = failure || error;
+      }
+      partNumber = queue.shift();
+    }
+  };
+  // Let parts in flight finish so the checkpoint records them
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, queue.length) }, worker)
+  );
+  await saving;
+  if (failure) {
+    throw failure;
+  }
+
+  await cos.multipartComplete({
+    Bucket: state.bucket,
+    Region: state.region,
+    Key: state.key,
+    UploadId: state.uploadId,
+    Parts: Array.from({ length: totalParts }, (_, index) => ({
+      PartNumber: index + 1,
+      ETag: state.parts[index + 1],
+    })),
+  });
+  await removeCheckpoint(state);
+
+  return { key: state.key, resumedParts };
+};
@@ -0,0 +1,44 @@
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { DeployProgress } from '../tools/deploy_folder_or_zip.js';
+
+/**
+ * Create a progress callback that sends MCP progress notifications
+ * for a tool call. Returns undefined when the client did not ask for
+ * progress by sending a progress token.
+ */
+export const createProgressReporter = (
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ((progress: DeployProgress) => void) | undefined => {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  // Progress must increase with every notification, so repeated and
+  // lower values are not sent
+  let lastProgress: number | undefined;
+
+  return (progress: DeployProgress) => {
+    if (lastProgress !== undefined && progress.progress <= lastProgress) {
+      return;
+    }
+    lastProgress = progress.progress;
+    extra
+      .sendNotification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress: lastProgress,
+          total: progress.total,
+          message: progress.message,
+        },
+      })
+      .catch(() => {
+        // Progress is best effort; never fail the deployment over it
+      });
+  };
+};
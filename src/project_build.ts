@@ -0,0 +1,268 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BuildFailedError } from './errors.js';
+import { detectFramework, Framework } from './frameworks.js';
+import { excerptLines } from './utils.js';
+
+const DEFAULT_BUILD_TIMEOUT_SECONDS = 900;
+// Output kept per command; older output is dropped
+const MAX_OUTPUT_BYTES = 256 * 1024;
+// Searched after the framework's own output folders
+const COMMON_OUTPUT_DIRS = ['dist', 'build', 'out', 'public', '_site'];
+// Credentials of this server, never passed to install and build scripts
+const SECRET_ENV_VARS = ['EDGEONE_PAGES_API_TOKEN', 'MCP_HTTP_TOKEN'];
+
+type PackageManager = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+// Lock files identifying the package manager, checked in order
+const LOCK_FILES: Array<[string, PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['package-lock.json', 'npm'],
+];
+
+export interface ProjectBuildOptions {
+  signal?: AbortSignal;
+  // Maximum time for install and build; defaults to EDGEONE_PAGES_BUILD_TIMEOUT seconds
+  timeoutMs?: number;
+  log?: (message: string) => void;
+}
+
+export interface ProjectBuildResult {
+  framework?: string;
+  packageManager: PackageManager;
+  commands: string[];
+  // Absolute path of the folder the build wrote the site to
+  outputDir: string;
+  durationMs: number;
+  // Last lines of the install and build output
+  logs: string;
+}
+
+const exists = async (filePath: string): Promise<boolean> => {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+const getBuildTimeoutMs = (): number => {
+  const seconds = Number(process.env.EDGEONE_PAGES_BUILD_TIMEOUT);
+  return (
+    (Number.isFinite(seconds) && seconds > 0
+      ? seconds
+      : DEFAULT_BUILD_TIMEOUT_SECONDS) * 1000
+  );
+};
+
+const detectPackageManager = async (
+  projectPath: string
+): Promise<PackageManager> => {
+  for (const [lockFile, packageManager] of LOCK_FILES) {
+    if (await exists(path.join(projectPath, lockFile))) {
+      return packageManager;
+    }
+  }
+  return 'npm';
+};
+
+const getInstallCommand = async (
+  projectPath: string,
+  packageManager: PackageManager
+): Promise<string> => {
+  if (packageManager === 'npm') {
+    return (await exists(path.join(projectPath, 'package-lock.json')))
+      ? 'npm ci'
+      : 'npm install';
+  }
+  return `${packageManager} install`;
+};
+
+const getBuildEnv = (): NodeJS.ProcessEnv => {
+  const env: NodeJS.ProcessEnv = { ...process.env, FORCE_COLOR: '0' };
+  for (const name of SECRET_ENV_VARS) {
+    delete env[name];
+  }
+  return env;
+};
+
+/**
+ * Run a shell command in the project folder, capturing stdout and stderr
+ * together. Rejects with the captured output when it fails or times out.
+ */
+const runCommand = (
+  command: string,
+  cwd: string,
+  signal: AbortSignal | undefined,
+  deadline: number
+): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    let output = '';
+    let stopReason: string | undefined;
+    const child = spawn(command, {
+      cwd,
+      shell: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Own process group, so the whole build can be stopped
+      detached: process.platform !== 'win32',
+      env: getBuildEnv(),
+    });
+
+    const append = (chunk: Buffer) => {
+      output += chunk.toString('utf-8');
+      if (output.length > MAX_OUTPUT_BYTES) {
+        output = output.slice(-MAX_OUTPUT_BYTES);
+      }
+    };
+    child.stdout.on('data', append);
+    child.stderr.on('data', append);
+
+    const stop = (reason: string) => {
+      stopReason = reason;
+      try {
+        if (process.platform !== 'win32' && child.pid) {
+          process.kill(-child.pid);
+        } else {
+          child.kill();
+        }
+      } catch (error) {
+        child.kill();
+      }
+    };
+    const onAbort = () => stop('cancelled');
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(
+      () => stop('timed out'),
+      Math.max(0, deadline - Date.now())
+    );
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      reject(new BuildFailedError(`Failed to run "${command}": ${error}`));
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      if (code === 0 && !stopReason) {
+        resolve(output);
+        return;
+      }
+      reject(
+        new BuildFailedError(
+          `"${command}" ${
+            stopReason || `exited with code ${code}`
+          }. Build output:\n${excerptLines(output)}`
+        )
+      );
+    });
+  });
+};
+
+const getOutputCandidates = (framework: Framework | undefined): string[] => [
+  ...new Set([...(framework?.outputDirs || []), ...COMMON_OUTPUT_DIRS]),
+];
+
+/**
+ * Find the folder the build wrote the site to: the first output folder of the
+ * framework, or a common one, with an index.html written by this build
+ */
+const findOutputDir = async (
+  projectPath: string,
+  framework: Framework | undefined,
+  startedAt: number
+): Promise<string | undefined> => {
+  for (const dir of getOutputCandidates(framework)) {
+    try {
+      const stats = await fs.stat(path.join(projectPath, dir, 'index.html'));
+      // Skip stale output left over from an earlier build
+      if (stats.mtimeMs >= startedAt - 1000) {
+        return path.join(projectPath, dir);
+      }
+    } catch (error) {
+      // Not built into this folder
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Build a frontend project from source: detect the framework and package
+ * manager, install dependencies when node_modules is missing, run the build
+ * script and find the output folder
+ * @param projectPath Folder containing the project's package.json
+ */
+export const buildProject = async (
+  projectPath: string,
+  options: ProjectBuildOptions = {}
+): Promise<ProjectBuildResult> => {
+  const { signal, log = () => {} } = options;
+  const startedAt = Date.now();
+  const deadline = startedAt + (options.timeoutMs || getBuildTimeoutMs());
+
+  let pkg: { scripts?: Record<string, string> };
+  try {
+    pkg = JSON.parse(
+      await fs.readFile(path.join(projectPath, 'package.json'), 'utf-8')
+    );
+  } catch (error) {
+    throw new Error(
+      `No readable package.json in ${projectPath}. Building is only supported for Node.js projects; deploy the built folder instead.`
+    );
+  }
+  if (!pkg.scripts?.build) {
+    throw new Error(
+      `package.json in ${projectPath} has no "build" script. Add one, or build the project yourself and deploy the output folder.`
+    );
+  }
+
+  const framework = await detectFramework(projectPath);
+  const packageManager = await detectPackageManager(projectPath);
+  log(
+    `Building ${framework ? `${framework.name} project` : 'project'} with ${packageManager}`
+  );
+
+  const commands: string[] = [];
+  const outputs: string[] = [];
+  if (!(await exists(path.join(projectPath, 'node_modules')))) {
+    commands.push(await getInstallCommand(projectPath, packageManager));
+  }
+  commands.push(
+    packageManager === 'yarn' ? 'yarn build' : `${packageManager} run build`
+  );
+
+  for (const command of commands) {
+    log(`Running "${command}"`);
+    const output = await runCommand(command, projectPath, signal, deadline);
+    outputs.push(`$ ${command}\n${output.trimEnd()}`);
+  }
+  const logs = excerptLines(outputs.join('\n'));
+
+  const outputDir = await findOutputDir(projectPath, framework, startedAt);
+  if (!outputDir) {
+    const hint =
+      framework?.id === 'nextjs'
+        ? ' For Next.js, set output: "export" in next.config to produce a static site in out/.'
+        : '';
+    throw new BuildFailedError(
+      `The build finished but no output folder with a fresh index.html was found (looked in ${getOutputCandidates(
+        framework
+      ).join(', ')}).${hint} Build output:\n${logs}`
+    );
+  }
+  log(`Build output folder: ${outputDir}`);
+
+  return {
+    framework: framework?.name,
+    packageManager,
+    commands,
+    outputDir,
+    durationMs: Date.now() - startedAt,
+    logs,
+  };
+};
@@ -0,0 +1,233 @@
+import { createReadStream } from 'fs';
+import * as path from 'path';
+import yauzl from 'yauzl';
+
+// Files larger than this are only checked by name
+const MAX_SCAN_BYTES = 2 * 1024 * 1024;
+const MAX_REPORTED_FINDINGS = 50;
+
+// Content of these files is not scanned
+const BINARY_EXTENSIONS = new Set([
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.gif',
+  '.webp',
+  '.avif',
+  '.ico',
+  '.bmp',
+  '.woff',
+  '.woff2',
+  '.ttf',
+  '.otf',
+  '.eot',
+  '.mp3',
+  '.mp4',
+  '.webm',
+  '.ogg',
+  '.wav',
+  '.pdf',
+  '.zip',
+  '.gz',
+  '.wasm',
+]);
+
+const SENSITIVE_FILE_RULES: Array<{ pattern: RegExp; reason: string }> = [
+  {
+    pattern: /^\.env(\..+)?$/,
+    reason: 'dotenv file',
+  },
+  {
+    pattern: /^id_(rsa|dsa|ecdsa|ed25519)$/,
+    reason: 'SSH private key',
+  },
+  {
+    pattern: /\.(pem|key|p12|pfx|jks|keystore)$/i,
+    reason: 'private key or certificate store',
+  },
+  {
+    pattern: /^(\.npmrc|\.pypirc|\.netrc|\.htpasswd|\.git-credentials)$/,
+    reason: 'credentials file',
+  },
+];
+
+// dotenv templates are meant to be shared
+const SAFE_FILE_PATTERN = /^\.env\.(example|sample|template|dist)$/;
+
+// Keys that are meant to ship in client code, like Google Maps API keys or
+// Stripe publishable keys, are not listed
+const SECRET_CONTENT_RULES: Array<{ pattern: RegExp; reason: string }> = [
+  {
+    pattern:
+      /-----BEGIN (RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY( BLOCK)?-----/,
+    reason: 'private key',
+  },
+  { pattern: /\b(AKIA|ASIA)[0-9A-Z]{16}\b/, reason: 'AWS access key ID' },
+  { pattern: /\bAKID[0-9A-Za-z]{32}\b/, reason: 'Tencent Cloud SecretId' },
+  {
+    pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/,
+    reason: 'GitHub token',
+  },
+  { pattern: /\bxox[baprs]-[A-Za-z0-9-]{10,}/, reason: 'Slack token' },
+  { pattern: /\b[sr]k_live_[0-9a-zA-Z]{24,}/, reason: 'Stripe live key' },
+  {
+    pattern: /\bsk-(proj-|ant-)?[A-Za-z0-9_-]{32,}/,
+    reason: 'OpenAI/Anthropic API key',
+  },
+];
+
+export interface SecretFinding {
+  file: string;
+  reason: string;
+  line?: number;
+}
+
+/**
+ * Check a file name against the sensitive file rules
+ */
+export const checkFileName = (relativePath: string): SecretFinding[] => {
+  const baseName = path.posix.basename(relativePath);
+  if (SAFE_FILE_PATTERN.test(baseName)) {
+    return [];
+  }
+  return SENSITIVE_FILE_RULES.filter(({ pattern }) =>
+    pattern.test(baseName)
+  ).map(({ reason }) => ({ file: relativePath, reason }));
+};
+
+/**
+ * Check file content against the secret patterns.
+ * The configured EdgeOne Pages API token is always treated as a secret.
+ */
+export const checkContent = (
+  relativePath: string,
+  content: string
+): SecretFinding[] => {
+  const rules = [...SECRET_CONTENT_RULES];
+  const apiToken = process.env.EDGEONE_PAGES_API_TOKEN;
+  if (apiToken && apiToken.length >= 16) {
+    rules.push({
+      pattern: new RegExp(apiToken.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')),
+      reason: 'EdgeOne Pages API token',
+    });
+  }
+
+  const findings: SecretFinding[] = [];
+  for (const { pattern, reason } of rules) {
+    const match = pattern.exec(content);
+    if (match) {
+      const line = content.slice(0, match.index).split('\n').length;
+      findings.push({ file: relativePath, reason, line });
+    }
+  }
+  return findings;
+};
+
+const shouldScanContent = (relativePath: string, size: number): boolean =>
+  size <= MAX_SCAN_BYTES &&
+  !BINARY_EXTENSIONS.has(path.posix.extname(relativePath).toLowerCase());
+
+const readStream = (stream: NodeJS.ReadableStream): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    stream.on('error', reject);
+  });
+};
+
+/**
+ * Scan the files of a folder deployment
+ * @param files Absolute file paths with their sizes
+ * @param rootPath The deployed folder, used to report relative paths
+ */
+export const scanFiles = async (
+  files: Array<{ path: string; size: number }>,
+  rootPath: string
+): Promise<SecretFinding[]> => {
+  const findings: SecretFinding[] = [];
+
+  for (const file of files) {
+    const relativePath = path.relative(rootPath, file.path).replace(/\\/g, '/');
+    findings.push(...checkFileName(relativePath));
+    if (shouldScanContent(relativePath, file.size)) {
+      const content = await readStream(createReadStream(file.path));
+      findings.push(...checkContent(relativePath, content));
+    }
+  }
+
+  return findings;
+};
+
+/**
+ * Scan the entries of a zip file
+ */
+export const scanZipFile = (zipPath: string): Promise<SecretFinding[]> => {
+  return new Promise((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true }, (err, zipfile) => {
+      if (err || !zipfile) {
+        reject(err || new Error(`Failed to open zip file ${zipPath}`));
+        return;
+      }
+
+      const findings: SecretFinding[] = [];
+
+      zipfile.on('entry', (entry: yauzl.Entry) => {
+        const relativePath = entry.fileName;
+        if (relativePath.endsWith('/')) {
+          zipfile.readEntry();
+          return;
+        }
+
+        findings.push(...checkFileName(relativePath));
+        if (!shouldScanContent(relativePath, entry.uncompressedSize)) {
+          zipfile.readEntry();
+          return;
+        }
+
+        zipfile.openReadStream(entry, (streamErr, stream) => {
+          if (streamErr || !stream) {
+            zipfile.close();
+            reject(streamErr);
+            return;
+          }
+          readStream(stream)
+            .then((content) => {
+              findings.push(...checkContent(relativePath, content));
+              zipfile.readEntry();
+            })
+            .catch((readErr) => {
+              zipfile.close();
+              reject(readErr);
+            });
+        });
+      });
+      zipfile.on('end', () => resolve(findings));
+      zipfile.on('error', reject);
+      zipfile.readEntry();
+    });
+  });
+};
+
+/**
+ * Format findings into an actionable error message
+ */
+export const formatSecretReport = (findings: SecretFinding[]): string => {
+  const lines = findings
+    .slice(0, MAX_REPORTED_FINDINGS)
+    .map(
+      (finding) =>
+        `  - ${finding.file}${finding.line ? `:${finding.line}` : ''}: ${
+          finding.reason
+        }`
+    );
+  if (findings.length > MAX_REPORTED_FINDINGS) {
+    lines.push(`  ... and ${findings.length - MAX_REPORTED_FINDINGS} more`);
+  }
+
+  return `Refusing to deploy: found ${
+    findings.length
+  } possible secrets or sensitive files that would be published to a public URL:
+${lines.join('\n')}
+Remove these files (or add them to .edgeoneignore / the exclude parameter) and deploy again. If they are safe to publish, pass allowSensitiveFiles: true.`;
+};
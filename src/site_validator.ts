@@ -0,0 +1,337 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import yauzl from 'yauzl';
+import { detectFramework, detectFrameworkFromFiles } from './frameworks.js';
+
+// EdgeOne Pages limits per deployment
+export const MAX_SITE_FILES = 20000;
+export const MAX_SITE_FILE_BYTES = 25 * 1024 * 1024;
+
+// HTML files larger than this are not checked for broken links
+const MAX_LINK_CHECK_BYTES = 2 * 1024 * 1024;
+const MAX_REPORTED_ISSUES = 50;
+const ENTRY_FILE = 'index.html';
+
+const HTML_FILE_PATTERN = /\.html?$/i;
+const REFERENCE_PATTERN =
+  /\s(?:href|src)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+// URLs with a scheme (https:, mailto:, data:), protocol-relative URLs and anchors
+const EXTERNAL_REFERENCE_PATTERN = /^([a-z][a-z0-9+.-]*:|\/\/|#)/i;
+// Unrendered template expressions cannot be resolved
+const TEMPLATE_PATTERN = /\{\{|\$\{|<%/;
+// Metadata written by the macOS archive utility, not part of the site
+const ZIP_METADATA_PATTERN = /^__MACOSX\/|(^|\/)\.DS_Store$/;
+
+export type SiteIssueType =
+  | 'missing_entry'
+  | 'source_tree'
+  | 'too_many_files'
+  | 'file_too_large'
+  | 'broken_link';
+
+export interface SiteIssue {
+  type: SiteIssueType;
+  message: string;
+  file?: string;
+}
+
+// A file of the deployment, relative to its root with forward slashes
+export interface SiteFile {
+  path: string;
+  size: number;
+}
+
+/**
+ * List the file entries of a zip file
+ */
+export const listZipEntries = (zipPath: string): Promise<SiteFile[]> => {
+  return new Promise((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true }, (err, zipfile) => {
+      if (err || !zipfile) {
+        reject(err || new Error(`Failed to open zip file ${zipPath}`));
+        return;
+      }
+
+      const files: SiteFile[] = [];
+      zipfile.on('entry', (entry: yauzl.Entry) => {
+        if (!entry.fileName.endsWith('/')) {
+          files.push({ path: entry.fileName, size: entry.uncompressedSize });
+        }
+        zipfile.readEntry();
+      });
+      zipfile.on('end', () => resolve(files));
+      zipfile.on('error', reject);
+      zipfile.readEntry();
+    });
+  });
+};
+
+/**
+ * Get the site files of a zip file relative to the site root. Zips of a
+ * folder keep all files in one top-level folder, which serves as the site
+ * root (as in examples/public.zip), so that folder is unwrapped.
+ */
+const getZipSiteFiles = (entries: SiteFile[]): SiteFile[] => {
+  const files = entries.filter((file) => !ZIP_METADATA_PATTERN.test(file.path));
+  const topLevel = new Set(files.map((file) => file.path.split('/')[0]));
+  if (topLevel.size !== 1 || files.some((file) => !file.path.includes('/'))) {
+    return files;
+  }
+
+  const prefix = `${[...topLevel][0]}/`;
+  return files.map((file) => ({
+    ...file,
+    path: file.path.slice(prefix.length),
+  }));
+};
+
+/**
+ * Detect a framework project source deployed instead of its build output
+ */
+const checkSourceTree = async (
+  rootPath: string,
+  files: SiteFile[],
+  isZip: boolean
+): Promise<SiteIssue[]> => {
+  const framework = isZip
+    ? detectFrameworkFromFiles([
+        ...new Set(files.map((file) => file.path.split('/')[0])),
+      ])
+    : await detectFramework(rootPath);
+  if (!framework) {
+    return [];
+  }
+
+  let builtDir: string | undefined;
+  if (!isZip) {
+    for (const dir of framework.outputDirs) {
+      try {
+        await fs.access(path.join(rootPath, dir, ENTRY_FILE));
+        builtDir = dir;
+        break;
+      } catch (error) {
+        // Not built into this folder
+      }
+    }
+  }
+
+  const source = isZip ? 'The zip file' : rootPath;
+  const fix = builtDir
+    ? `Deploy the build output folder ${path.join(rootPath, builtDir)} instead`
+    : `Build it first (e.g. npm run build) and deploy the output folder (${framework.outputDirs.join(
+        ' or '
+      )})`;
+  return [
+    {
+      type: 'source_tree',
+      message: `${source} looks like the source of a ${
+        framework.name
+      } project, not its build output. ${fix}${
+        isZip ? '' : ', or pass build: true to build and deploy it in one step'
+      }.`,
+    },
+  ];
+};
+
+/**
+ * Check that the site has an index.html at its root
+ */
+const checkEntryFile = (files: SiteFile[]): SiteIssue[] => {
+  const paths = files.map((file) => file.path);
+  if (paths.includes(ENTRY_FILE)) {
+    return [];
+  }
+
+  const nestedEntry = paths
+    .filter((filePath) => filePath.endsWith(`/${ENTRY_FILE}`))
+    .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+  const rootPages = paths.filter(
+    (filePath) => !filePath.includes('/') && HTML_FILE_PATTERN.test(filePath)
+  );
+
+  let hint: string;
+  if (nestedEntry) {
+    hint = `Found ${nestedEntry}; deploy the ${path.posix.dirname(
+      nestedEntry
+    )} folder instead, or move its contents to the root.`;
+  } else if (rootPages.length > 0) {
+    hint = `Rename the main page (${rootPages
+      .slice(0, 3)
+      .join(', ')}) to ${ENTRY_FILE}.`;
+  } else {
+    hint =
+      'No HTML files found. Deploy the build output folder (e.g. dist, build or out), not the project source.';
+  }
+  return [
+    {
+      type: 'missing_entry',
+      file: ENTRY_FILE,
+      message: `No ${ENTRY_FILE} at the site root. ${hint}`,
+    },
+  ];
+};
+
+/**
+ * Check the file count and file sizes against the deployment limits
+ */
+const checkLimits = (files: SiteFile[]): SiteIssue[] => {
+  const issues: SiteIssue[] = [];
+  if (files.length > MAX_SITE_FILES) {
+    issues.push({
+      type: 'too_many_files',
+      message: `${files.length} files exceed the limit of ${MAX_SITE_FILES} files per deployment. Leave out files not needed at runtime with the exclude parameter or .edgeoneignore.`,
+    });
+  }
+  for (const file of files) {
+    if (file.size > MAX_SITE_FILE_BYTES) {
+      issues.push({
+        type: 'file_too_large',
+        file: file.path,
+        message: `${file.path} is ${(file.size / 1024 / 1024).toFixed(
+          1
+        )} MB; files can be at most ${
+          MAX_SITE_FILE_BYTES / 1024 / 1024
+        } MB. Exclude it, or host it elsewhere and link to it.`,
+      });
+    }
+  }
+  return issues;
+};
+
+/**
+ * Extract the href and src attribute values of an HTML document,
+ * ignoring comments and the content of script, style and template elements
+ */
+export const extractReferences = (html: string): string[] => {
+  const markup = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/(<(script|style|template)\b[^>]*>)[\s\S]*?<\/\2>/gi, '$1');
+
+  const references: string[] = [];
+  for (const match of markup.matchAll(REFERENCE_PATTERN)) {
+    const reference = (match[1] ?? match[2] ?? match[3]).trim();
+    if (
+      reference &&
+      !EXTERNAL_REFERENCE_PATTERN.test(reference) &&
+      !TEMPLATE_PATTERN.test(reference)
+    ) {
+      references.push(reference);
+    }
+  }
+  return references;
+};
+
+/**
+ * Whether a local reference from an HTML file resolves to a deployed file.
+ * Folder references resolve to their index.html, extensionless ones to .html.
+ */
+const resolvesToFile = (
+  fromFile: string,
+  reference: string,
+  existing: Set<string>
+): boolean => {
+  const target = reference.split(/[?#]/)[0];
+  if (!target) {
+    return true;
+  }
+  let decoded = target;
+  try {
+    decoded = decodeURI(target);
+  } catch (error) {
+    // Keep malformed escapes as they are
+  }
+
+  const resolved = path.posix.normalize(
+    decoded.startsWith('/')
+      ? `.${decoded}`
+      : path.posix.join(path.posix.dirname(fromFile), decoded)
+  );
+  if (resolved === '..' || resolved.startsWith('../')) {
+    return false;
+  }
+
+  const base = resolved.replace(/\/+$/, '').replace(/^\.$/, '');
+  const candidates = base
+    ? [base, `${base}/${ENTRY_FILE}`, `${base}.html`]
+    : [ENTRY_FILE];
+  return candidates.some((candidate) => existing.has(candidate));
+};
+
+/**
+ * Check the relative href/src references of the HTML files of a folder
+ */
+const checkLinks = async (
+  rootPath: string,
+  files: SiteFile[]
+): Promise<SiteIssue[]> => {
+  const existing = new Set(files.map((file) => file.path));
+  const issues: SiteIssue[] = [];
+
+  for (const file of files) {
+    if (
+      !HTML_FILE_PATTERN.test(file.path) ||
+      file.size > MAX_LINK_CHECK_BYTES
+    ) {
+      continue;
+    }
+    const html = await fs.readFile(path.join(rootPath, file.path), 'utf-8');
+    const reported = new Set<string>();
+    for (const reference of extractReferences(html)) {
+      if (
+        reported.has(reference) ||
+        resolvesToFile(file.path, reference, existing)
+      ) {
+        continue;
+      }
+      reported.add(reference);
+      issues.push({
+        type: 'broken_link',
+        file: file.path,
+        message: `${file.path} references "${reference}", which is not part of the deployment. Fix the path or add the missing file.`,
+      });
+    }
+  }
+  return issues;
+};
+
+/**
+ * Check a site before deploying it: entry file, framework source trees,
+ * deployment limits and, for folders, broken relative links
+ * @param rootPath The deployed folder, or the zip file
+ * @param files Files that would be deployed
+ * @param isZip Whether rootPath is a zip file; its HTML is not link-checked
+ */
+export const validateSite = async (
+  rootPath: string,
+  siteFiles: SiteFile[],
+  isZip: boolean
+): Promise<SiteIssue[]> => {
+  const files = isZip ? getZipSiteFiles(siteFiles) : siteFiles;
+  const issues = [
+    ...(await checkSourceTree(rootPath, files, isZip)),
+    ...checkEntryFile(files),
+    ...checkLimits(files),
+  ];
+  if (!isZip) {
+    issues.push(...(await checkLinks(rootPath, files)));
+  }
+  return issues;
+};
+
+/**
+ * Format validation issues into an actionable error message
+ */
+export const formatValidationReport = (issues: SiteIssue[]): string => {
+  const lines = issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map((issue) => `  - ${issue.message}`);
+  if (issues.length > MAX_REPORTED_ISSUES) {
+    lines.push(`  ... and ${issues.length - MAX_REPORTED_ISSUES} more`);
+  }
+
+  return `Site validation failed with ${issues.length} problem${
+    issues.length === 1 ? '' : 's'
+  }:
+${lines.join('\n')}
+Fix these problems and deploy again. To deploy anyway, pass skipValidation: true.`;
+};
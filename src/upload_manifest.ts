@@ -0,0 +1,80 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export interface ManifestEntry {
+  hash: string;
+  size: number;
+}
+
+/**
+ * Files uploaded by the last successful deployment of a project,
+ * keyed by their path relative to the deployed folder.
+ */
+export interface UploadManifest {
+  projectId: string;
+  bucket: string;
+  region: string;
+  targetPath: string;
+  createdAt: string;
+  files: Record<string, ManifestEntry>;
+}
+
+/**
+ * Directory for local deployment state: upload manifests and checkpoints
+ */
+export const getCacheDir = (): string =>
+  process.env.EDGEONE_PAGES_CACHE_DIR ||
+  path.join(os.tmpdir(), 'edgeone-pages-cache');
+
+const getManifestPath = (projectId: string): string =>
+  path.join(
+    getCacheDir(),
+    'manifests',
+    `${projectId.replace(/[^\w.-]/g, '_')}.json`
+  );
+
+/**
+ * Compute the sha256 hash of a file without reading it into memory at once
+ */
+export const hashFile = (filePath: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+};
+
+/**
+ * Load the manifest of the last successful deployment of a project.
+ * Returns undefined when no usable manifest exists.
+ */
+export const loadUploadManifest = async (
+  projectId: string
+): Promise<UploadManifest | undefined> => {
+  try {
+    const raw = await fs.readFile(getManifestPath(projectId), 'utf-8');
+    const manifest = JSON.parse(raw) as UploadManifest;
+    if (manifest?.projectId !== projectId || !manifest.files) {
+      return undefined;
+    }
+    return manifest;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+/**
+ * Store the manifest of a successful deployment for the next incremental upload
+ */
+export const saveUploadManifest = async (
+  manifest: UploadManifest
+): Promise<void> => {
+  const manifestPath = getManifestPath(manifest.projectId);
+  await fs.mkdir(path.dirname(manifestPath), { recursive: true });
+  await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+};
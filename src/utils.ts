@@ -37,3 +37,104 @@ export const showPackageVersion = (): void => {
     console.error('Error reading package.json:', error);
   }
 };
+
+export interface Pagination {
+  offset: number;
+  limit: number;
+  totalCount: number | null;
+  hasMore: boolean;
+  nextOffset: number | null;
+}
+
+/**
+ * Build pagination metadata for a page of API results.
+ * Falls back to a full page heuristic when the API omits TotalCount.
+ * An empty page is always the last one.
+ */
+export const buildPagination = (
+  offset: number,
+  limit: number,
+  returned: number,
+  totalCount?: number
+): Pagination => {
+  const hasMore =
+    returned > 0 &&
+    (typeof totalCount === 'number'
+      ? offset + returned < totalCount
+      : returned === limit);
+
+  return {
+    offset,
+    limit,
+    totalCount: typeof totalCount === 'number' ? totalCount : null,
+    hasMore,
+    nextOffset: hasMore ? offset + returned : null,
+  };
+};
+
+/**
+ * Format a size in bytes for display, e.g. 1.5 MB
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * Run a task for every item, with at most `concurrency` tasks at a time
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  );
+};
+
+/**
+ * Wait for the given time. Rejects early when the signal is aborted.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Operation cancelled'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Operation cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Keep the last lines of a build or deployment log
+ */
+export const excerptLines = (text: string, maxLines = 80): string => {
+  const lines = text.trimEnd().split('\n');
+  if (lines.length <= maxLines) {
+    return lines.join('\n');
+  }
+  return [
+    `... ${lines.length - maxLines} earlier lines omitted`,
+    ...lines.slice(-maxLines),
+  ].join('\n');
+};
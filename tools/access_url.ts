@@ -0,0 +1,71 @@
+import {
+  createSignedUrl,
+  describePagesProjects,
+  findPagesDeployment,
+  getCurrentProductionDeployment,
+  withPagesApi,
+} from './deploy_folder_or_zip.js';
+import { ProjectNotFoundError } from '../src/errors.js';
+
+export interface AccessUrlResult {
+  projectId: string;
+  deploymentId: string;
+  env: string;
+  // Signed URL, valid for a limited time after issuedAt
+  url: string;
+  issuedAt: string;
+  // Verified custom domains serving Production, which need no signed URL
+  customDomains: string[];
+}
+
+/**
+ * Issue a fresh signed URL for a deployment, so a site with an expired
+ * temporary URL can be shared again without deploying it again
+ * @param projectId The project ID
+ * @param deploymentId Deployment to link to. Defaults to the deployment
+ * currently serving Production.
+ */
+export const getAccessUrl = async (
+  projectId: string,
+  deploymentId?: string
+): Promise<AccessUrlResult> => {
+  return withPagesApi(async () => {
+    const projectResult = await describePagesProjects({ projectId });
+    const project = projectResult?.Data?.Response?.Projects?.[0];
+    if (!project) {
+      throw new ProjectNotFoundError(`Project with ID ${projectId} not found`);
+    }
+
+    const deployment = deploymentId
+      ? await findPagesDeployment(projectId, deploymentId)
+      : await getCurrentProductionDeployment(projectId);
+    if (!deployment) {
+      throw new Error(
+        deploymentId
+          ? `Deployment with ID ${deploymentId} not found in project ${projectId}`
+          : `Project ${projectId} has no deployment serving production. Pass a deploymentId, or deploy first.`
+      );
+    }
+    if (deployment.Status !== 'Success') {
+      throw new Error(
+        `Deployment ${deployment.DeploymentId} has status ${deployment.Status}; only successful deployments can be accessed.`
+      );
+    }
+
+    const signedUrl = await createSignedUrl(
+      deployment.PreviewUrl || project.PresetDomain
+    );
+
+    return {
+      projectId,
+      deploymentId: deployment.DeploymentId,
+      env: deployment.Env,
+      ...signedUrl,
+      customDomains: deployment.UsedInProd
+        ? (project.CustomDomains || [])
+            .filter((customDomain) => customDomain.Status === 'Pass')
+            .map((customDomain) => `https://${customDomain.Domain}`)
+        : [],
+    };
+  });
+};
@@ -0,0 +1,111 @@
+import {
+  deletePagesProject,
+  getProjectConsoleUrl,
+  listTemporaryProjects,
+  TemporaryProject,
+  withPagesApi,
+} from './deploy_folder_or_zip.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TemporaryProjectSummary {
+  projectId: string;
+  name: string;
+  createdAt: string;
+  ageDays: number;
+  consoleUrl: string;
+}
+
+export interface CleanupProjectsResult {
+  dryRun: boolean;
+  olderThanDays: number;
+  // Temporary projects selected for deletion
+  projects: TemporaryProjectSummary[];
+  deleted: string[];
+  failed: Array<{ projectId: string; error: string }>;
+  // Temporary projects left alone because they are newer or not selected
+  kept: number;
+}
+
+export interface CleanupProjectsOptions {
+  // Only select projects created at least this many days ago
+  olderThanDays?: number;
+  // Only select these projects, which must be temporary projects
+  projectIds?: string[];
+  // List the selected projects without deleting them (default true)
+  dryRun?: boolean;
+}
+
+const toSummary = (
+  { project, createdAt }: TemporaryProject,
+  now: number
+): TemporaryProjectSummary => ({
+  projectId: project.ProjectId,
+  name: project.Name,
+  createdAt: new Date(createdAt).toISOString(),
+  ageDays: Math.floor((now - createdAt) / DAY_MS),
+  consoleUrl: getProjectConsoleUrl(project.ProjectId),
+});
+
+/**
+ * Find the temporary local-upload-<timestamp> projects created for deploys
+ * without a project and delete those older than a given age. Lists them only
+ * by default.
+ */
+export const cleanupTemporaryProjects = async (
+  options: CleanupProjectsOptions = {}
+): Promise<CleanupProjectsResult> => {
+  const { olderThanDays = 7, projectIds, dryRun = true } = options;
+
+  return withPagesApi(async () => {
+    const now = Date.now();
+    const temporaryProjects = await listTemporaryProjects();
+
+    if (projectIds?.length) {
+      const unknown = projectIds.filter(
+        (projectId) =>
+          !temporaryProjects.some(
+            ({ project }) => project.ProjectId === projectId
+          )
+      );
+      if (unknown.length > 0) {
+        throw new Error(
+          `Not temporary projects: ${unknown.join(
+            ', '
+          )}. Only temporary projects named local-upload-<timestamp> can be cleaned up.`
+        );
+      }
+    }
+
+    const selected = temporaryProjects.filter(
+      ({ project, createdAt }) =>
+        (!projectIds?.length || projectIds.includes(project.ProjectId)) &&
+        (olderThanDays === 0 || now - createdAt >= olderThanDays * DAY_MS)
+    );
+
+    const result: CleanupProjectsResult = {
+      dryRun,
+      olderThanDays,
+      projects: selected.map((project) => toSummary(project, now)),
+      deleted: [],
+      failed: [],
+      kept: temporaryProjects.length - selected.length,
+    };
+    if (dryRun) {
+      return result;
+    }
+
+    for (const { project } of selected) {
+      try {
+        await deletePagesProject(project.ProjectId);
+        result.deleted.push(project.ProjectId);
+      } catch (error) {
+        result.failed.push({
+          projectId: project.ProjectId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return result;
+  });
+};
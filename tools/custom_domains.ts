@@ -0,0 +1,223 @@
+import {
+  createPagesDomain,
+  deletePagesDomain,
+  describePagesDomains,
+  describePagesProjects,
+  getProjectConsoleUrl,
+  PagesDomain,
+  Project,
+  verifyPagesDomain,
+  withPagesApi,
+} from './deploy_folder_or_zip.js';
+import { ProjectNotFoundError } from '../src/errors.js';
+
+// Status of a domain whose DNS records have been verified
+const VERIFIED_STATUS = 'Pass';
+
+const DOMAIN_PATTERN =
+  /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z0-9-]{2,63}$/;
+
+export interface DnsRecord {
+  type: string;
+  name: string;
+  value: string;
+}
+
+export interface CustomDomainSummary {
+  domain: string;
+  status: string;
+  verified: boolean;
+  // Records to create at the DNS provider so the domain can be verified,
+  // as returned by the API; empty when it returned none
+  dnsRecords: DnsRecord[];
+  // Status message of the API, e.g. why verification failed
+  message?: string;
+  createdOn?: string;
+}
+
+export interface ListCustomDomainsResult {
+  projectId: string;
+  projectName: string;
+  presetDomain: string;
+  domains: CustomDomainSummary[];
+}
+
+export interface CustomDomainResult {
+  projectId: string;
+  domain: CustomDomainSummary;
+  nextStep?: string;
+}
+
+/**
+ * Normalize a domain given as a host name or URL, e.g. "https://WWW.Example.com/"
+ */
+export const normalizeDomain = (input: string): string => {
+  const domain = input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/\.$/, '');
+  if (!DOMAIN_PATTERN.test(domain)) {
+    throw new Error(
+      `Invalid domain "${input}". Use a host name such as www.example.com.`
+    );
+  }
+  return domain;
+};
+
+const getProject = async (projectId: string): Promise<Project> => {
+  const result = await describePagesProjects({ projectId });
+  const project = result?.Data?.Response?.Projects?.[0];
+  if (!project) {
+    throw new ProjectNotFoundError(`Project with ID ${projectId} not found`);
+  }
+  return project;
+};
+
+const toDomainSummary = (domain: PagesDomain): CustomDomainSummary => ({
+  domain: domain.Domain,
+  status: domain.Status,
+  verified: domain.Status === VERIFIED_STATUS,
+  dnsRecords: (domain.DnsRecords || []).map((record) => ({
+    type: record.Type,
+    name: record.Name,
+    value: record.Value,
+  })),
+  message: domain.Message,
+  createdOn: domain.CreatedOn,
+});
+
+const findDomain = async (
+  projectId: string,
+  domain: string
+): Promise<PagesDomain | undefined> => {
+  const result = await describePagesDomains(projectId);
+  return (result?.Data?.Response?.Domains || []).find(
+    (candidate) => candidate.Domain.toLowerCase() === domain
+  );
+};
+
+const getExistingDomain = async (
+  projectId: string,
+  domain: string
+): Promise<PagesDomain> => {
+  const existing = await findDomain(projectId, domain);
+  if (!existing) {
+    throw new Error(
+      `${domain} is not a custom domain of project ${projectId}. Add it with add_custom_domain.`
+    );
+  }
+  return existing;
+};
+
+const getNextStep = (
+  summary: CustomDomainSummary,
+  projectId: string
+): string | undefined => {
+  if (summary.verified) {
+    return undefined;
+  }
+  if (summary.dnsRecords.length === 0) {
+    return `The API returned no DNS records for this domain${
+      summary.message ? ` (${summary.message})` : ''
+    }. Look up the records to create in the EdgeOne Pages console (${getProjectConsoleUrl(
+      projectId
+    )}), then call verify_custom_domain.`;
+  }
+  return 'Create the DNS records in dnsRecords at your DNS provider, then call verify_custom_domain. DNS changes can take a while to propagate.';
+};
+
+/**
+ * List the custom domains of a project with their verification status and DNS records
+ * @param projectId The project ID
+ */
+export const listCustomDomains = async (
+  projectId: string
+): Promise<ListCustomDomainsResult> => {
+  return withPagesApi(async () => {
+    const project = await getProject(projectId);
+    const result = await describePagesDomains(projectId);
+
+    return {
+      projectId,
+      projectName: project.Name,
+      presetDomain: project.PresetDomain,
+      domains: (result?.Data?.Response?.Domains || []).map(toDomainSummary),
+    };
+  });
+};
+
+/**
+ * Add a custom domain to a project. The domain serves Production once its
+ * DNS records are verified.
+ * @param projectId The project ID
+ * @param domain Host name, e.g. www.example.com
+ */
+export const addCustomDomain = async (
+  projectId: string,
+  domain: string
+): Promise<CustomDomainResult> => {
+  const name = normalizeDomain(domain);
+  return withPagesApi(async () => {
+    await getProject(projectId);
+    if (await findDomain(projectId, name)) {
+      throw new Error(
+        `${name} is already a custom domain of project ${projectId}. Use list_custom_domains to see its status.`
+      );
+    }
+
+    await createPagesDomain({ projectId, domain: name });
+    const created = await getExistingDomain(projectId, name);
+    const summary = toDomainSummary(created);
+    return {
+      projectId,
+      domain: summary,
+      nextStep: getNextStep(summary, projectId),
+    };
+  });
+};
+
+/**
+ * Check the DNS records of a custom domain again
+ * @param projectId The project ID
+ * @param domain Host name of a custom domain of the project
+ */
+export const verifyCustomDomain = async (
+  projectId: string,
+  domain: string
+): Promise<CustomDomainResult> => {
+  const name = normalizeDomain(domain);
+  return withPagesApi(async () => {
+    await getProject(projectId);
+    await getExistingDomain(projectId, name);
+
+    await verifyPagesDomain({ projectId, domain: name });
+    const verified = await getExistingDomain(projectId, name);
+    const summary = toDomainSummary(verified);
+    return {
+      projectId,
+      domain: summary,
+      nextStep: getNextStep(summary, projectId),
+    };
+  });
+};
+
+/**
+ * Remove a custom domain from a project
+ * @param projectId The project ID
+ * @param domain Host name of a custom domain of the project
+ */
+export const removeCustomDomain = async (
+  projectId: string,
+  domain: string
+): Promise<{ projectId: string; domain: string; removed: boolean }> => {
+  const name = normalizeDomain(domain);
+  return withPagesApi(async () => {
+    await getProject(projectId);
+    await getExistingDomain(projectId, name);
+
+    await deletePagesDomain({ projectId, domain: name });
+    return { projectId, domain: name, removed: true };
+  });
+};
@@ -0,0 +1,149 @@
+import * as path from 'path';
+import {
+  deploySiteFilesToEdgeOne,
+  DeployEnv,
+  DeployOutcome,
+  DeployRunOptions,
+  ProjectSelection,
+} from './deploy_folder_or_zip.js';
+import { deployHtmlToEdgeOne } from './deploy_html.js';
+
+const MAX_FILES = 200;
+const MAX_TOTAL_BYTES = 10 * 1024 * 1024;
+const ENTRY_FILE = 'index.html';
+
+/**
+ * Normalize and validate a map of relative file paths to file contents
+ */
+export const normalizeSiteFiles = (
+  files: Record<string, string>
+): Record<string, string> => {
+  const entries = Object.entries(files);
+  if (entries.length === 0) {
+    throw new Error('No files provided');
+  }
+  if (entries.length > MAX_FILES) {
+    throw new Error(
+      `Too many files: ${entries.length}. At most ${MAX_FILES} files can be deployed at once; use deploy_folder_or_zip for larger sites.`
+    );
+  }
+
+  const normalized: Record<string, string> = {};
+  let totalBytes = 0;
+
+  for (const [rawPath, content] of entries) {
+    const filePath = path.posix.normalize(
+      rawPath.replace(/\\/g, '/').replace(/^\.\//, '')
+    );
+    if (
+      !filePath ||
+      filePath === '.' ||
+      filePath.endsWith('/') ||
+      path.posix.isAbsolute(filePath) ||
+      filePath.split('/').includes('..')
+    ) {
+      throw new Error(
+        `Invalid file path "${rawPath}". Use relative paths such as "index.html" or "assets/app.js".`
+      );
+    }
+    if (normalized[filePath] !== undefined) {
+      throw new Error(`Duplicate file path "${rawPath}"`);
+    }
+
+    totalBytes += Buffer.byteLength(content, 'utf-8');
+    normalized[filePath] = content;
+  }
+
+  if (totalBytes > MAX_TOTAL_BYTES) {
+    throw new Error(
+      `Files are too large: ${totalBytes} bytes. At most ${MAX_TOTAL_BYTES} bytes can be deployed at once; use deploy_folder_or_zip for larger sites.`
+    );
+  }
+  if (normalized[ENTRY_FILE] === undefined) {
+    throw new Error(`Missing entry file "${ENTRY_FILE}"`);
+  }
+
+  return normalized;
+};
+
+/**
+ * Inline the stylesheets and scripts referenced by index.html into a single page.
+ * Used when no API token is available and only the single-page service can be used.
+ */
+export const inlineSiteFiles = (files: Record<string, string>): string => {
+  const inlined = new Set<string>([ENTRY_FILE]);
+
+  const resolve = (ref: string): string | undefined => {
+    if (/^([a-z]+:)?\/\//i.test(ref) || ref.startsWith('data:')) {
+      return undefined;
+    }
+    const filePath = path.posix.normalize(
+      ref.split(/[?#]/)[0].replace(/^\//, '')
+    );
+    return files[filePath] !== undefined ? filePath : undefined;
+  };
+
+  let html = files[ENTRY_FILE].replace(
+    /<link\b[^>]*\brel=["']?stylesheet["']?[^>]*>/gi,
+    (tag) => {
+      const href = tag.match(/\bhref=["']?([^"'\s>]+)["']?/i)?.[1];
+      const filePath = href ? resolve(href) : undefined;
+      if (!filePath) {
+        return tag;
+      }
+      inlined.add(filePath);
+      return `<style>\n${files[filePath]}\n</style>`;
+    }
+  );
+
+  html = html.replace(
+    /<script\b([^>]*)\bsrc=["']?([^"'\s>]+)["']?([^>]*)>\s*<\/script>/gi,
+    (tag, before: string, src: string, after: string) => {
+      const filePath = resolve(src);
+      if (!filePath) {
+        return tag;
+      }
+      inlined.add(filePath);
+      const content = files[filePath].replace(/<\/script/gi, '<\\/script');
+      const attributes = `${before}${after}`.trimEnd();
+      return `<script${attributes}>\n${content}\n</script>`;
+    }
+  );
+
+  const remaining = Object.keys(files).filter((file) => !inlined.has(file));
+  if (remaining.length > 0) {
+    throw new Error(
+      `Without EDGEONE_PAGES_API_TOKEN only a single index.html with the stylesheets and scripts it references can be deployed. Not deployable: ${remaining.join(
+        ', '
+      )}. Set EDGEONE_PAGES_API_TOKEN to deploy multiple pages and other assets.`
+    );
+  }
+
+  return html;
+};
+
+/**
+ * Deploy a set of site files (HTML, CSS, JS and other text assets) as one site.
+ * Uses the Pages project flow when EDGEONE_PAGES_API_TOKEN is set, otherwise
+ * inlines the assets into index.html and deploys it as a single page.
+ * @param files Map of relative file paths to file contents; must include index.html
+ * @param env Environment to deploy to (project flow only)
+ * @param project Project ID or name to deploy to (project flow only)
+ * @param run Cancellation signal and build timeout (project flow only)
+ * @returns The deployment outcome in the project flow, or the page URL
+ */
+export const deployFilesToEdgeOne = async (
+  files: Record<string, string>,
+  env: DeployEnv = 'Production',
+  project: ProjectSelection = {},
+  run: DeployRunOptions = {}
+): Promise<DeployOutcome | { url: string }> => {
+  const siteFiles = normalizeSiteFiles(files);
+
+  if (process.env.EDGEONE_PAGES_API_TOKEN) {
+    return deploySiteFilesToEdgeOne(siteFiles, env, project, run);
+  }
+
+  const url = await deployHtmlToEdgeOne(inlineSiteFiles(siteFiles));
+  return { url };
+};
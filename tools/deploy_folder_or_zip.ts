@@ -2,31 +2,81 @@ import COS from 'cos-nodejs-sdk-v5';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import dotenv from 'dotenv';
+import {
+  AuthError,
+  BuildFailedError,
+  classifyApiError,
+  PagesError,
+  parseRetryAfter,
+  ProjectNotFoundError,
+  TransientError,
+  withRetry,
+} from '../src/errors.js';
+import {
+  AUTO_DETECT_REGIONS,
+  getConfiguredEndpoint,
+  getRegionEndpoint,
+  loadDetectedRegion,
+  PagesEndpoint,
+  saveDetectedRegion,
+} from '../src/endpoint.js';
+import {
+  createIgnoreMatcher,
+  IgnoreMatcher,
+  IgnoreOptions,
+} from '../src/ignore_rules.js';
+import { uploadFileMultipart } from '../src/multipart_upload.js';
+import { buildProject, ProjectBuildResult } from '../src/project_build.js';
+import {
+  formatSecretReport,
+  scanFiles,
+  scanZipFile,
+  SecretFinding,
+} from '../src/secret_scanner.js';
+import {
+  formatValidationReport,
+  listZipEntries,
+  SiteFile,
+  SiteIssue,
+  validateSite,
+} from '../src/site_validator.js';
+import {
+  hashFile,
+  loadUploadManifest,
+  ManifestEntry,
+  saveUploadManifest,
+} from '../src/upload_manifest.js';
+import {
+  buildPagination,
+  excerptLines,
+  formatBytes,
+  runWithConcurrency,
+  sleep,
+} from '../src/utils.js';
 
 // Load environment variables
 dotenv.config();
 
-const BASE_API_URL1 = 'https://pages-api.cloud.tencent.com/v1';
-const BASE_API_URL2 = 'https://pages-api.edgeone.ai/v1';
+// API endpoint in use, resolved once per token
+let pagesEndpoint: { token: string; endpoint: PagesEndpoint } | undefined;
 
-let BASE_API_URL = '';
-
-// Console override for logging
+// Deployment logging
 interface LogEntry {
   timestamp: string;
   level: string;
   message: string;
 }
 
-let deploymentLogs: LogEntry[] = [];
-let originalConsole: Console;
-
-const overrideConsole = () => {
-  if (!originalConsole) {
-    originalConsole = { ...console };
-  }
+// Collects log lines of a single deployment; never writes to stdout
+export interface DeploymentLogger {
+  log: (...args: any[]) => void;
+  info: (...args: any[]) => void;
+  warn: (...args: any[]) => void;
+  error: (...args: any[]) => void;
+}
 
-  const createLogFunction = (level: string, originalFn: Function) => {
+const createLogger = (logs: LogEntry[]): DeploymentLogger => {
+  const createLogFunction = (level: string) => {
     return (...args: any[]) => {
       const timestamp = new Date().toISOString();
       const message = args
@@ -35,7 +85,7 @@ const overrideConsole = () => {
         )
         .join(' ');
 
-      deploymentLogs.push({
+      logs.push({
         timestamp,
         level,
         message,
@@ -43,33 +93,22 @@ const overrideConsole = () => {
     };
   };
 
-  console.log = createLogFunction('LOG', originalConsole.log);
-  console.error = createLogFunction('ERROR', originalConsole.error);
-  console.warn = createLogFunction('WARN', originalConsole.warn);
-  console.info = createLogFunction('INFO', originalConsole.info);
-};
-
-const restoreConsole = () => {
-  if (originalConsole) {
-    console.log = originalConsole.log;
-    console.error = originalConsole.error;
-    console.warn = originalConsole.warn;
-    console.info = originalConsole.info;
-  }
-};
-
-const resetLogs = () => {
-  deploymentLogs = [];
+  return {
+    log: createLogFunction('LOG'),
+    info: createLogFunction('INFO'),
+    warn: createLogFunction('WARN'),
+    error: createLogFunction('ERROR'),
+  };
 };
 
-const formatLogs = (): string => {
-  if (deploymentLogs.length === 0) {
+const formatLogs = (ctx: DeploymentContext): string => {
+  if (ctx.logs.length === 0) {
     return '';
   }
 
   // Remove duplicates by keeping track of seen messages
   const seenMessages = new Set<string>();
-  const uniqueLogs = deploymentLogs.filter((log) => {
+  const uniqueLogs = ctx.logs.filter((log) => {
     const key = `${log.level}: ${log.message}`;
     if (seenMessages.has(key)) {
       return false;
@@ -87,8 +126,16 @@ const formatLogs = (): string => {
   )}\n${'='.repeat(50)}\n\n`;
 };
 
-// Export BASE_API_URL for use in other files
-export const getBaseApiUrl = () => BASE_API_URL;
+/**
+ * Get the API endpoint in use: configured, or detected by checkAndSetBaseUrl
+ */
+export const getPagesEndpoint = (): PagesEndpoint =>
+  getConfiguredEndpoint() ||
+  pagesEndpoint?.endpoint ||
+  getRegionEndpoint(AUTO_DETECT_REGIONS[0]);
+
+// Export the API base URL for use in other files
+export const getBaseApiUrl = () => getPagesEndpoint().apiUrl;
 
 // Get API key from environment variable or use argument
 const getApiKey = () => {
@@ -99,27 +146,50 @@ const getApiKey = () => {
 export const getAuthorization = () => {
   const apiKey = getApiKey();
   if (!apiKey) {
-    throw new Error(
+    throw new AuthError(
       'Missing EDGEONE_PAGES_API_TOKEN. Please provide a token with --token or set it as an environment variable.'
     );
   }
   return `Bearer ${apiKey}`;
 };
 
-// Get projectName from environment variable
-const getProjectName = () => process.env.EDGEONE_PAGES_PROJECT_NAME || '';
-
-let tempProjectName: string | undefined;
+// Project selected by the current tool call
+export interface ProjectSelection {
+  projectId?: string;
+  projectName?: string;
+  // Without a project, reuse the newest temporary project instead of creating
+  // one; defaults to EDGEONE_PAGES_REUSE_TEMP_PROJECT
+  reuseTempProject?: boolean;
+}
 
-const getTempProjectName = (): string => {
-  if (!tempProjectName) {
-    tempProjectName = `local-upload-${Date.now()}`;
+const normalizeProjectSelection = (
+  selection: ProjectSelection = {}
+): ProjectSelection => ({
+  projectId: selection.projectId?.trim() || undefined,
+  projectName: selection.projectName?.trim() || undefined,
+  reuseTempProject: selection.reuseTempProject,
+});
+
+// Name prefix of the projects created for deploys without a project
+export const TEMP_PROJECT_PREFIX = 'local-upload-';
+// Names generated for those projects: the prefix and a millisecond timestamp.
+// User projects that merely share the prefix must never match.
+const TEMP_PROJECT_NAME_PATTERN = /^local-upload-(\d{13})$/;
+
+// Get projectName from the tool call, falling back to the environment variable
+const getProjectName = (ctx: DeploymentContext) =>
+  ctx.projectSelection.projectName ||
+  process.env.EDGEONE_PAGES_PROJECT_NAME ||
+  '';
+
+const getProjectId = (ctx: DeploymentContext) =>
+  ctx.projectSelection.projectId || '';
+
+const getTempProjectName = (ctx: DeploymentContext): string => {
+  if (!ctx.tempProjectName) {
+    ctx.tempProjectName = `${TEMP_PROJECT_PREFIX}${Date.now()}`;
   }
-  return tempProjectName;
-};
-
-const resetTempProjectName = (): void => {
-  tempProjectName = undefined;
+  return ctx.tempProjectName;
 };
 
 // Types
@@ -158,27 +228,63 @@ interface CosTempTokenResponse {
   RequestId: string;
 }
 
-interface ApiResponse<T> {
+export interface ApiResponse<T> {
   Code: number;
   Data: T;
   Message: string;
   RequestId: string;
 }
 
-interface Project {
+export interface Project {
   ProjectId: string;
   Name: string;
   Status: string;
   PresetDomain: string;
+  CreatedOn?: string;
   CustomDomains?: Array<{
     Status: string;
     Domain: string;
   }>;
 }
 
+// A custom domain of a project with the DNS records needed to verify it
+export interface PagesDomain {
+  DomainId?: string;
+  Domain: string;
+  Status: string;
+  Message?: string;
+  DnsRecords?: Array<{
+    Type: string;
+    Name: string;
+    Value: string;
+  }>;
+  CreatedOn?: string;
+}
+
+interface DeploymentLogsResponse {
+  Response: {
+    Logs?: Array<{
+      Time?: string;
+      Level?: string;
+      Step?: string;
+      Message?: string;
+    }>;
+    // Some deployments return the whole log as one text
+    Log?: string;
+  };
+}
+
+interface DomainsResponse {
+  Response: {
+    Domains: PagesDomain[];
+    TotalCount?: number;
+  };
+}
+
 interface ProjectsResponse {
   Response: {
     Projects: Project[];
+    TotalCount?: number;
   };
 }
 
@@ -195,7 +301,7 @@ interface EncipherTokenResponse {
   };
 }
 
-interface DeploymentResult {
+export interface DeploymentResult {
   DeploymentId: string;
   ProjectId: string;
   Status: string;
@@ -215,177 +321,546 @@ interface DeploymentResult {
   ProjectUrl: string;
 }
 
+export type DeployEnv = 'Production' | 'Preview';
+
+interface DeploymentsResponse {
+  Response: {
+    Deployments: DeploymentResult[];
+    TotalCount?: number;
+  };
+}
+
+// Durations of the deployment phases, in milliseconds
+export interface DeployTimings {
+  uploadMs: number;
+  buildMs: number;
+  totalMs: number;
+}
+
+export interface DeploymentStructuredResult {
+  type: 'custom' | 'temporary';
+  url: string;
+  projectId: string;
+  consoleUrl: string;
+  projectName: string;
+  deploymentId: string;
+  status: string;
+  env: DeployEnv;
+  timings?: DeployTimings;
+  warning?: string;
+  excluded?: string[];
+  build?: ProjectBuildResult;
+  // Verified custom domains serving a Production deployment
+  customDomains?: string[];
+  // Issue time of a temporary URL; get_access_url issues a new one
+  issuedAt?: string;
+}
+
+// Returned instead when the build did not finish before the timeout
+export interface PendingDeploymentResult {
+  type: 'pending';
+  deploymentId: string;
+  projectId: string;
+  projectName: string;
+  status: string;
+  consoleUrl: string;
+  env: DeployEnv;
+  message: string;
+  timings?: DeployTimings;
+  build?: ProjectBuildResult;
+}
+
+// What a deploy would upload and where, computed locally without uploading
+export interface DeployPlan {
+  localPath: string;
+  isZip: boolean;
+  files: Array<{ path: string; size: number }>;
+  fileCount: number;
+  totalBytes: number;
+  // null when it cannot be checked without EDGEONE_PAGES_API_TOKEN
+  projectExists: boolean | null;
+  createsProject: boolean | null;
+  excluded: string[];
+  sensitiveFiles: SecretFinding[];
+  validationIssues: SiteIssue[];
+  notes: string[];
+}
+
+export interface DryRunResult {
+  type: 'dry_run';
+  projectId?: string;
+  // Unknown when only a project ID is given and it cannot be looked up
+  projectName?: string;
+  env: DeployEnv;
+  plan: DeployPlan;
+}
+
+// Result of a deployment together with its formatted process log
+export interface DeployOutcome {
+  result: DeploymentStructuredResult | PendingDeploymentResult;
+  logs: string;
+}
+
+export type DeployPhase =
+  | 'validate'
+  | 'build'
+  | 'endpoint'
+  | 'upload'
+  | 'project'
+  | 'deployment'
+  | 'poll'
+  | 'done';
+
+// Progress of a deployment, out of a total of 100
+export interface DeployProgress {
+  phase: DeployPhase;
+  progress: number;
+  total: number;
+  message: string;
+}
+
+// Options controlling how a deployment is run and waited for
+export interface DeployRunOptions {
+  // Cancels the deployment when aborted, e.g. the MCP request's abort signal
+  signal?: AbortSignal;
+  // Maximum time to wait for the build; defaults to EDGEONE_PAGES_DEPLOY_TIMEOUT seconds
+  timeoutMs?: number;
+  // Called as the deployment moves through its phases
+  onProgress?: (progress: DeployProgress) => void;
+}
+
+// Options for folder deployments
+export interface FolderDeployOptions extends IgnoreOptions, DeployRunOptions {
+  // Deploy even if the secret scanner finds sensitive files or tokens
+  allowSensitiveFiles?: boolean;
+  // Deploy even if the site fails validation (entry file, links, limits)
+  skipValidation?: boolean;
+  // Treat the folder as project source: run its build and deploy the output
+  build?: boolean;
+}
+
 interface UploadResult {
   success: boolean;
   targetPath?: string;
   error?: any;
+  bucket?: string;
+  region?: string;
+  manifestFiles?: Record<string, ManifestEntry>;
+  excluded?: string[];
 }
 
 // Token cache mechanism
 interface TokenCache {
   token: CosTempTokenResponse | null;
   cos: COS | null;
+  // Existing project the token was issued for, if any
+  projectId: string | null;
+}
+
+/**
+ * State of a single deployment or API operation. Every tool call gets its own
+ * context, so concurrent calls never share logs, credentials or project names.
+ */
+export interface DeploymentContext {
+  logs: LogEntry[];
+  logger: DeploymentLogger;
+  tokenCache: TokenCache;
+  projectSelection: ProjectSelection;
+  tempProjectName?: string;
+  run: DeployRunOptions;
 }
 
-const tokenCache: TokenCache = {
-  token: null,
-  cos: null,
+const createDeploymentContext = (
+  project: ProjectSelection = {},
+  run: DeployRunOptions = {}
+): DeploymentContext => {
+  const logs: LogEntry[] = [];
+  return {
+    logs,
+    logger: createLogger(logs),
+    tokenCache: {
+      token: null,
+      cos: null,
+      projectId: null,
+    },
+    projectSelection: normalizeProjectSelection(project),
+    run,
+  };
+};
+
+// Overall progress range covered by each deployment phase
+const PROGRESS_PHASES: Record<DeployPhase, [number, number]> = {
+  validate: [0, 5],
+  build: [0, 5],
+  endpoint: [5, 10],
+  upload: [10, 60],
+  project: [60, 65],
+  deployment: [65, 70],
+  poll: [70, 99],
+  done: [100, 100],
 };
 
-// Reset token cache
-const resetTokenCache = () => {
-  tokenCache.token = null;
-  tokenCache.cos = null;
+/**
+ * Report progress within a phase
+ * @param fraction How far the phase has progressed, from 0 to 1
+ */
+const reportProgress = (
+  ctx: DeploymentContext,
+  phase: DeployPhase,
+  fraction: number,
+  message: string
+): void => {
+  const { run } = ctx;
+  if (!run.onProgress) {
+    return;
+  }
+  const [start, end] = PROGRESS_PHASES[phase];
+  const clamped = Math.min(Math.max(fraction, 0), 1);
+  run.onProgress({
+    phase,
+    progress: Math.round(start + (end - start) * clamped),
+    total: 100,
+    message,
+  });
 };
 
 // Utility functions
-const sleep = (ms: number): Promise<void> => {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new Error('Operation cancelled');
+  }
+};
+
+/**
+ * Probe an API endpoint with the configured token.
+ * Network errors and 5xx responses are reported as transient.
+ */
+const probeEndpoint = async (
+  url: string
+): Promise<{ json: ApiResponse<ProjectsResponse>; transient: boolean }> => {
+  // Built before the request, so a missing token is not taken for a network error
+  const headers = {
+    Authorization: getAuthorization(),
+    'Content-Type': 'application/json',
+  };
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        Action: 'DescribePagesProjects',
+        PageNumber: 1,
+        PageSize: 10,
+      }),
+    });
+    const json = (await res
+      .json()
+      .catch(() => ({ Code: -1 }))) as ApiResponse<ProjectsResponse>;
+    return { json, transient: res.status >= 500 };
+  } catch (error) {
+    return {
+      json: { Code: -1 } as ApiResponse<ProjectsResponse>,
+      transient: true,
+    };
+  }
 };
 
-const checkAndSetBaseUrl = async (): Promise<void> => {
-  const res1 = await fetch(`${BASE_API_URL1}`, {
-    method: 'POST',
-    headers: {
-      Authorization: getAuthorization(),
-      'Content-Type': 'application/json',
+/**
+ * Resolve the API endpoint for the configured token. EDGEONE_PAGES_API_URL and
+ * EDGEONE_PAGES_REGION are used as is; otherwise the endpoint that accepts the
+ * token is detected once and cached, so later runs skip the probe.
+ */
+const checkAndSetBaseUrl = async (ctx: DeploymentContext): Promise<void> => {
+  const configured = getConfiguredEndpoint();
+  if (configured) {
+    ctx.logger.log(`Using configured endpoint ${configured.apiUrl}`);
+    return;
+  }
+
+  const token = getApiKey() || '';
+  if (pagesEndpoint?.token === token) {
+    return;
+  }
+  const cachedRegion = token ? await loadDetectedRegion(token) : undefined;
+  if (cachedRegion) {
+    pagesEndpoint = { token, endpoint: getRegionEndpoint(cachedRegion) };
+    ctx.logger.log(`Using cached ${cachedRegion} endpoint`);
+    return;
+  }
+
+  await withRetry(
+    async () => {
+      // Try the endpoints one at a time, so the token is only sent to
+      // another endpoint when the first one rejects it
+      let transient = false;
+      let requestId: string | undefined;
+      for (const region of AUTO_DETECT_REGIONS) {
+        const endpoint = getRegionEndpoint(region);
+        const probe = await probeEndpoint(endpoint.apiUrl);
+        if (probe.json.Code === 0) {
+          pagesEndpoint = { token, endpoint };
+          ctx.logger.log(`Using ${region} endpoint ${endpoint.apiUrl}`);
+          await saveDetectedRegion(token, region).catch((error) =>
+            ctx.logger.warn(
+              `[checkAndSetBaseUrl] Failed to cache endpoint: ${error}`
+            )
+          );
+          return;
+        }
+        transient = transient || probe.transient;
+        requestId = requestId || probe.json.RequestId;
+      }
+
+      if (transient) {
+        throw new TransientError(
+          'Could not reach the EdgeOne Pages API. Please check your network connection and try again.'
+        );
+      }
+      // Every endpoint rejected the token
+      throw new AuthError(
+        'Invalid EDGEONE_PAGES_API_TOKEN. Please check your API token. For more information, please refer to https://edgeone.ai/document/177158578324279296',
+        { requestId }
+      );
     },
-    body: JSON.stringify({
-      Action: 'DescribePagesProjects',
-      PageNumber: 1,
-      PageSize: 10,
-    }),
-  });
+    {
+      signal: ctx.run.signal,
+      onRetry: (error, attempt, delayMs) =>
+        ctx.logger.warn(
+          `[checkAndSetBaseUrl] ${error.message} Retrying in ${delayMs}ms (attempt ${attempt})`
+        ),
+    }
+  );
+};
+
+/**
+ * Whether repeating an API action after a lost response is safe. Writes may
+ * have been applied by the time a network error or 5xx response arrives,
+ * so repeating them could create duplicates.
+ */
+const isReadAction = (action: string): boolean => action.startsWith('Describe');
+
+/**
+ * Call an EdgeOne Pages API action. Rate limits are retried with backoff, and
+ * for read actions also network errors and 5xx responses; other failures
+ * throw a typed PagesError.
+ */
+const callPagesApi = async <T>(
+  action: string,
+  params: Record<string, unknown> = {},
+  signal?: AbortSignal
+): Promise<ApiResponse<T>> => {
+  return withRetry(
+    async () => {
+      // Built before the request, so a missing token is not taken for a
+      // network error
+      const headers = {
+        Authorization: getAuthorization(),
+        'Content-Type': 'application/json',
+      };
+      let res: Response;
+      try {
+        res = await fetch(getBaseApiUrl(), {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ Action: action, ...params }),
+          signal,
+        });
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        throw new TransientError(
+          `[${action}] Network error: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+
+      if (!res.ok) {
+        const errorText = await res.text();
+        throw classifyApiError(
+          `[${action}] API request failed (${res.status}): ${errorText}`,
+          {
+            status: res.status,
+            retryAfterMs: parseRetryAfter(res.headers.get('retry-after')),
+          },
+          action
+        );
+      }
 
-  const res2 = await fetch(`${BASE_API_URL2}`, {
-    method: 'POST',
-    headers: {
-      Authorization: getAuthorization(),
-      'Content-Type': 'application/json',
+      const data = (await res.json()) as ApiResponse<T>;
+      const response = (data?.Data as any)?.Response;
+      const apiError = response?.Error;
+      if (apiError || data.Code !== 0) {
+        throw classifyApiError(
+          `[${action}] ${apiError?.Message || data.Message || 'API error'}`,
+          {
+            status: res.status,
+            apiCode: apiError?.Code || String(data.Code),
+            requestId: response?.RequestId || data.RequestId,
+          },
+          action
+        );
+      }
+      return data;
     },
-    body: JSON.stringify({
-      Action: 'DescribePagesProjects',
-      PageNumber: 1,
-      PageSize: 10,
-    }),
-  });
+    {
+      signal,
+      // A rate-limited request was rejected, so even writes can be repeated
+      shouldRetry: (error) =>
+        isReadAction(action) ? error.retryable : error.code === 'RATE_LIMITED',
+    }
+  );
+};
 
-  // Parse responses
-  const json1 = (await res1
-    .json()
-    .catch(() => ({ Code: -1 }))) as ApiResponse<ProjectsResponse>;
-  const json2 = (await res2
-    .json()
-    .catch(() => ({ Code: -1 }))) as ApiResponse<ProjectsResponse>;
-
-  // Check if either endpoint worked
-  if (json1.Code === 0) {
-    BASE_API_URL = BASE_API_URL1;
-    console.log('Using BASE_API_URL1 endpoint');
-  } else if (json2.Code === 0) {
-    BASE_API_URL = BASE_API_URL2;
-    console.log('Using BASE_API_URL2 endpoint');
-  } else {
-    // Both endpoints failed
-    throw new Error(
-      'Invalid EDGEONE_PAGES_API_TOKEN. Please check your API token. For more information, please refer to https://edgeone.ai/document/177158578324279296'
-    );
-  }
+/**
+ * Run a read or management operation against the Pages API.
+ * Resolves the API endpoint first and passes the operation its own context.
+ */
+export const withPagesApi = async <T>(
+  fn: (ctx: DeploymentContext) => Promise<T>
+): Promise<T> => {
+  const ctx = createDeploymentContext();
+  await checkAndSetBaseUrl(ctx);
+  return fn(ctx);
 };
 
 // API functions
 /**
  * Get temporary COS token for file uploads
+ * @param refresh Request new credentials even if a token is cached
  */
-const getCosTempToken = async (): Promise<CosTempTokenResponse> => {
+const getCosTempToken = async (
+  ctx: DeploymentContext,
+  refresh = false
+): Promise<CosTempTokenResponse> => {
+  const { tokenCache } = ctx;
   // Return cached token if available
-  if (tokenCache.token) {
+  if (tokenCache.token && !refresh) {
     return tokenCache.token;
   }
 
   let body;
-  if (getProjectName()) {
-    const result = await describePagesProjects({
-      projectName: getProjectName(),
-    });
-    if (result.Data.Response.Projects.length > 0) {
-      body = { ProjectId: result.Data.Response.Projects[0].ProjectId };
-    } else {
-      throw new Error(`Project ${getProjectName()} not found`);
-    }
+  const existingProject = await findSelectedProject(ctx);
+  if (existingProject) {
+    tokenCache.projectId = existingProject.Data.Response.Projects[0].ProjectId;
+    body = { ProjectId: tokenCache.projectId };
   } else {
-    body = { ProjectName: getTempProjectName() };
-  }
-
-  const res = await fetch(`${BASE_API_URL}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: getAuthorization(),
-    },
-    body: JSON.stringify(
-      Object.assign(body, { Action: 'DescribePagesCosTempToken' })
-    ),
-  });
-
-  if (!res.ok) {
-    const errorText = await res.text();
-    throw new Error(`API request failed (${res.status}): ${errorText}`);
+    body = { ProjectName: getProjectName(ctx) || getTempProjectName(ctx) };
   }
 
-  const tokenResponse = (await res.json()) as CosTempTokenResponse;
+  const tokenResponse = (await callPagesApi<CosTempTokenResponse['Data']>(
+    'DescribePagesCosTempToken',
+    body,
+    ctx.run.signal
+  )) as CosTempTokenResponse;
   // Cache the token
   tokenCache.token = tokenResponse;
   return tokenResponse;
 };
 
 /**
- * Get or create a project
+ * Look up the project selected by ID or name.
+ * Returns undefined when a project name is selected but does not exist yet.
  */
-const getOrCreateProject = async (): Promise<ApiResponse<ProjectsResponse>> => {
-  if (getProjectName()) {
+const findSelectedProject = async (
+  ctx: DeploymentContext
+): Promise<ApiResponse<ProjectsResponse> | undefined> => {
+  if (getProjectId(ctx)) {
     const result = await describePagesProjects({
-      projectName: getProjectName(),
+      projectId: getProjectId(ctx),
     });
-    if (result.Data.Response.Projects.length > 0) {
-      console.log(
-        `[getOrCreateProject] Project ${getProjectName()} already exists. Using existing project.`
+    if (!result?.Data?.Response?.Projects?.length) {
+      throw new ProjectNotFoundError(
+        `Project with ID ${getProjectId(ctx)} not found`,
+        { requestId: result?.RequestId }
       );
+    }
+    return result;
+  }
+
+  if (getProjectName(ctx)) {
+    const result = await describePagesProjects({
+      projectName: getProjectName(ctx),
+    });
+    if (result?.Data?.Response?.Projects?.length) {
       return result;
     }
   }
-  console.log(
-    `[getOrCreateProject] ProjectName is not provided. Creating new project.`
-  );
-  return await createPagesProject();
+
+  return undefined;
+};
+
+const shouldReuseTempProject = (ctx: DeploymentContext): boolean =>
+  ctx.projectSelection.reuseTempProject ??
+  process.env.EDGEONE_PAGES_REUSE_TEMP_PROJECT === 'true';
+
+/**
+ * Select the newest temporary project when no project is given and reusing
+ * temporary projects is enabled. It is selected by ID before the upload, so
+ * the upload credentials, the upload manifest and the deployment all use it.
+ */
+const selectReusableTempProject = async (
+  ctx: DeploymentContext
+): Promise<Project | undefined> => {
+  if (
+    getProjectId(ctx) ||
+    getProjectName(ctx) ||
+    !shouldReuseTempProject(ctx)
+  ) {
+    return undefined;
+  }
+  const [latest] = await listTemporaryProjects();
+  if (latest) {
+    ctx.projectSelection.projectId = latest.project.ProjectId;
+  }
+  return latest?.project;
+};
+
+/**
+ * Get or create a project
+ */
+const getOrCreateProject = async (
+  ctx: DeploymentContext
+): Promise<ApiResponse<ProjectsResponse>> => {
+  const result = await findSelectedProject(ctx);
+  if (result) {
+    const project = result.Data.Response.Projects[0];
+    ctx.logger.log(
+      `[getOrCreateProject] Project ${project.Name} already exists. Using existing project.`
+    );
+    return result;
+  }
+
+  if (getProjectName(ctx)) {
+    ctx.logger.log(
+      `[getOrCreateProject] Project ${getProjectName(ctx)} does not exist. Creating new project.`
+    );
+  } else {
+    ctx.logger.log(
+      `[getOrCreateProject] ProjectName is not provided. Creating new project.`
+    );
+  }
+  return await createPagesProject(ctx);
 };
 
 /**
  * Create a new pages project
  */
-const createPagesProject = async (): Promise<ApiResponse<ProjectsResponse>> => {
+const createPagesProject = async (
+  ctx: DeploymentContext
+): Promise<ApiResponse<ProjectsResponse>> => {
   try {
-    const res = await fetch(`${BASE_API_URL}`, {
-      method: 'POST',
-      headers: {
-        Authorization: getAuthorization(),
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        Action: 'CreatePagesProject',
-        Name: getProjectName() || getTempProjectName(),
+    const data = await callPagesApi<CreatePagesProjectResponse>(
+      'CreatePagesProject',
+      {
+        Name: getProjectName(ctx) || getTempProjectName(ctx),
         Provider: 'Upload',
         Channel: 'Custom',
         Area: 'global',
-      }),
-    });
-
-    if (!res.ok) {
-      const errorText = await res.text();
-      throw new Error(`API request failed (${res.status}): ${errorText}`);
-    }
-
-    const data = (await res.json()) as ApiResponse<CreatePagesProjectResponse>;
+      },
+      ctx.run.signal
+    );
 
     const projectInfo = await describePagesProjects({
       projectId: data?.Data?.Response?.ProjectId,
@@ -393,7 +868,7 @@ const createPagesProject = async (): Promise<ApiResponse<ProjectsResponse>> => {
 
     return projectInfo;
   } catch (error) {
-    console.error('Error creating pages project: ' + error);
+    ctx.logger.error('Error creating pages project: ' + error);
     throw error;
   }
 };
@@ -401,11 +876,13 @@ const createPagesProject = async (): Promise<ApiResponse<ProjectsResponse>> => {
 /**
  * Describe pages projects
  */
-const describePagesProjects = async (opts: {
+export const describePagesProjects = async (opts: {
   projectId?: string;
   projectName?: string;
+  offset?: number;
+  limit?: number;
 }): Promise<ApiResponse<ProjectsResponse>> => {
-  const { projectId, projectName } = opts;
+  const { projectId, projectName, offset = 0, limit = 10 } = opts;
 
   const filters = [];
   if (projectId) {
@@ -415,146 +892,327 @@ const describePagesProjects = async (opts: {
     filters.push({ Name: 'Name', Values: [projectName] });
   }
 
-  const res = await fetch(`${BASE_API_URL}`, {
-    method: 'POST',
-    headers: {
-      Authorization: getAuthorization(),
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      Action: 'DescribePagesProjects',
-      Filters: filters,
-      Offset: 0,
-      Limit: 10,
-      OrderBy: 'CreatedOn',
-    }),
+  return callPagesApi<ProjectsResponse>('DescribePagesProjects', {
+    Filters: filters,
+    Offset: offset,
+    Limit: limit,
+    OrderBy: 'CreatedOn',
   });
-
-  if (!res.ok) {
-    const errorText = await res.text();
-    throw new Error(`API request failed (${res.status}): ${errorText}`);
-  }
-
-  return (await res.json()) as ApiResponse<ProjectsResponse>;
 };
 
 /**
- * Describe pages deployments
+ * Delete a project with all its deployments
  */
-const describePagesDeployments = async (
+export const deletePagesProject = async (
   projectId: string
 ): Promise<ApiResponse<any>> => {
-  const res = await fetch(`${BASE_API_URL}`, {
-    method: 'POST',
-    headers: {
-      Authorization: getAuthorization(),
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      Action: 'DescribePagesDeployments',
-      ProjectId: projectId,
-      Offset: 0,
-      Limit: 50,
-      OrderBy: 'CreatedOn',
-      Order: 'Desc',
-    }),
+  return callPagesApi<any>('DeletePagesProject', {
+    ProjectId: projectId,
   });
+};
 
-  if (!res.ok) {
-    const errorText = await res.text();
-    throw new Error(`API request failed (${res.status}): ${errorText}`);
-  }
+export interface TemporaryProject {
+  project: Project;
+  // Creation time in milliseconds, from the timestamp in the project name
+  createdAt: number;
+}
 
-  return (await res.json()) as ApiResponse<any>;
+/**
+ * Get the creation time of a temporary project from its generated name,
+ * or undefined when the project is not a temporary project
+ */
+const getTempProjectCreatedAt = (project: Project): number | undefined => {
+  const match = TEMP_PROJECT_NAME_PATTERN.exec(project.Name);
+  return match ? Number(match[1]) : undefined;
 };
 
 /**
- * Describe pages encipher token
+ * List the temporary projects created for deploys without a project, newest first
  */
-const describePagesEncipherToken = async (
-  url: string
-): Promise<ApiResponse<EncipherTokenResponse>> => {
-  const res = await fetch(`${BASE_API_URL}`, {
-    method: 'POST',
-    headers: {
-      Authorization: getAuthorization(),
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      Action: 'DescribePagesEncipherToken',
-      Text: url,
-    }),
-  });
-
-  if (!res.ok) {
-    const errorText = await res.text();
-    throw new Error(`API request failed (${res.status}): ${errorText}`);
+export const listTemporaryProjects = async (): Promise<TemporaryProject[]> => {
+  const limit = 100;
+  const projects: TemporaryProject[] = [];
+  let offset: number | null = 0;
+
+  while (offset !== null) {
+    const result = await describePagesProjects({ offset, limit });
+    const page = result?.Data?.Response?.Projects || [];
+    for (const project of page) {
+      const createdAt = getTempProjectCreatedAt(project);
+      if (createdAt !== undefined) {
+        projects.push({ project, createdAt });
+      }
+    }
+    offset = buildPagination(
+      offset,
+      limit,
+      page.length,
+      result?.Data?.Response?.TotalCount
+    ).nextOffset;
   }
 
-  return (await res.json()) as ApiResponse<EncipherTokenResponse>;
+  return projects.sort((a, b) => b.createdAt - a.createdAt);
 };
 
 /**
- * Check if a path is a zip file
+ * Describe pages deployments
  */
-const isZipFile = (filePath: string): boolean => {
-  return path.extname(filePath).toLowerCase() === '.zip';
+export const describePagesDeployments = async (
+  projectId: string,
+  opts: { offset?: number; limit?: number } = {}
+): Promise<ApiResponse<DeploymentsResponse>> => {
+  const { offset = 0, limit = 50 } = opts;
+
+  return callPagesApi<DeploymentsResponse>('DescribePagesDeployments', {
+    ProjectId: projectId,
+    Offset: offset,
+    Limit: limit,
+    OrderBy: 'CreatedOn',
+    Order: 'Desc',
+  });
 };
 
 /**
- * Create a new deployment
+ * Find a deployment of a project by ID, paging through the deployment list
  */
-const createPagesDeployment = async (opts: {
+export const findPagesDeployment = async (
+  projectId: string,
+  deploymentId: string
+): Promise<DeploymentResult | undefined> => {
+  const limit = 50;
+  let offset: number | null = 0;
+
+  while (offset !== null) {
+    const result = await describePagesDeployments(projectId, {
+      offset,
+      limit,
+    });
+    const deployments = result?.Data?.Response?.Deployments || [];
+    const deployment = deployments.find(
+      (deploy) => deploy.DeploymentId === deploymentId
+    );
+    if (deployment) {
+      return deployment;
+    }
+    offset = buildPagination(
+      offset,
+      limit,
+      deployments.length,
+      result?.Data?.Response?.TotalCount
+    ).nextOffset;
+  }
+  return undefined;
+};
+
+/**
+ * Make an existing deployment the one serving Production traffic
+ */
+export const rollbackPagesDeployment = async (opts: {
   projectId: string;
-  targetPath: string;
-  isZip: boolean;
-  env: 'Production' | 'Preview';
+  deploymentId: string;
 }): Promise<ApiResponse<any>> => {
-  const { projectId, targetPath, isZip, env } = opts;
+  const { projectId, deploymentId } = opts;
 
-  const res = await fetch(`${BASE_API_URL}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: getAuthorization(),
-    },
-    body: JSON.stringify({
-      Action: 'CreatePagesDeployment',
-      ProjectId: projectId,
-      ViaMeta: 'Upload',
-      Provider: 'Upload',
-      Env: env,
-      DistType: isZip ? 'Zip' : 'Folder',
-      TempBucketPath: targetPath,
-    }),
+  return callPagesApi<any>('RollbackPagesDeployment', {
+    ProjectId: projectId,
+    DeploymentId: deploymentId,
   });
+};
 
-  if (!res.ok) {
-    const errorText = await res.text();
-    throw new Error(
-      `[createPagesDeployment] API request failed (${res.status}): ${errorText}`
-    );
-  }
-
-  const data = (await res.json()) as ApiResponse<any>;
+/**
+ * Find the deployment currently serving Production traffic, if any
+ */
+export const getCurrentProductionDeployment = async (
+  projectId: string
+): Promise<DeploymentResult | undefined> => {
+  const deploymentsResult = await describePagesDeployments(projectId);
+  const deployments = deploymentsResult?.Data?.Response?.Deployments || [];
+  return deployments.find((deploy) => deploy.UsedInProd);
+};
 
-  if (data?.Data?.Response?.Error) {
-    throw new Error(
-      `[createPagesDeployment] Deployment creation failed: ${data.Data.Response.Error.Message}`
+/**
+ * Fetch the build and error log of a deployment as lines of text
+ */
+export const describePagesDeploymentLogs = async (
+  projectId: string,
+  deploymentId: string
+): Promise<string[]> => {
+  const result = await callPagesApi<DeploymentLogsResponse>(
+    'DescribePagesDeploymentLogs',
+    {
+      ProjectId: projectId,
+      DeploymentId: deploymentId,
+    }
+  );
+  const response = result?.Data?.Response;
+  if (response?.Logs?.length) {
+    return response.Logs.map((entry) =>
+      [
+        entry.Time,
+        entry.Level && `[${entry.Level}]`,
+        entry.Step && `${entry.Step}:`,
+        entry.Message,
+      ]
+        .filter(Boolean)
+        .join(' ')
     );
   }
+  return (response?.Log || '').split('\n').filter((line) => line.trim());
+};
+
+/**
+ * Describe the custom domains of a project
+ */
+export const describePagesDomains = async (
+  projectId: string
+): Promise<ApiResponse<DomainsResponse>> => {
+  return callPagesApi<DomainsResponse>('DescribePagesDomains', {
+    ProjectId: projectId,
+    Offset: 0,
+    Limit: 100,
+  });
+};
 
-  return data;
+/**
+ * Add a custom domain to a project
+ */
+export const createPagesDomain = async (opts: {
+  projectId: string;
+  domain: string;
+}): Promise<ApiResponse<any>> => {
+  return callPagesApi<any>('CreatePagesDomain', {
+    ProjectId: opts.projectId,
+    Domain: opts.domain,
+  });
+};
+
+/**
+ * Ask the API to check the DNS records of a custom domain again
+ */
+export const verifyPagesDomain = async (opts: {
+  projectId: string;
+  domain: string;
+}): Promise<ApiResponse<any>> => {
+  return callPagesApi<any>('VerifyPagesDomain', {
+    ProjectId: opts.projectId,
+    Domain: opts.domain,
+  });
+};
+
+/**
+ * Remove a custom domain from a project
+ */
+export const deletePagesDomain = async (opts: {
+  projectId: string;
+  domain: string;
+}): Promise<ApiResponse<any>> => {
+  return callPagesApi<any>('DeletePagesDomain', {
+    ProjectId: opts.projectId,
+    Domain: opts.domain,
+  });
+};
+
+/**
+ * Describe pages encipher token
+ */
+const describePagesEncipherToken = async (
+  url: string
+): Promise<ApiResponse<EncipherTokenResponse>> => {
+  return callPagesApi<EncipherTokenResponse>('DescribePagesEncipherToken', {
+    Text: url,
+  });
+};
+
+export interface SignedUrl {
+  url: string;
+  // The eo_time of the URL. The API does not report how long it stays valid.
+  issuedAt: string;
+}
+
+/**
+ * Issue a signed URL for a domain without a verified custom domain,
+ * e.g. a deployment's preview domain or the project's preset domain
+ * @param domain Domain with or without https://
+ */
+export const createSignedUrl = async (domain: string): Promise<SignedUrl> => {
+  const host = domain.replace('https://', '');
+  const encipherTokenResult = await describePagesEncipherToken(host);
+
+  if (
+    encipherTokenResult.Code !== 0 ||
+    !encipherTokenResult?.Data?.Response?.Token ||
+    !encipherTokenResult?.Data?.Response?.Timestamp
+  ) {
+    throw new Error(
+      `Failed to get access token for ${host}: ${
+        encipherTokenResult.Message || 'Invalid token data'
+      }`
+    );
+  }
+  const { Token, Timestamp } = encipherTokenResult.Data.Response;
+  return {
+    url: `https://${host}?eo_token=${Token}&eo_time=${Timestamp}`,
+    issuedAt: new Date(Timestamp * 1000).toISOString(),
+  };
+};
+
+/**
+ * Check if a path is a zip file
+ */
+const isZipFile = (filePath: string): boolean => {
+  return path.extname(filePath).toLowerCase() === '.zip';
+};
+
+/**
+ * Create a new deployment
+ */
+const createPagesDeployment = async (opts: {
+  projectId: string;
+  targetPath: string;
+  isZip: boolean;
+  env: DeployEnv;
+}): Promise<ApiResponse<any>> => {
+  const { projectId, targetPath, isZip, env } = opts;
+
+  return callPagesApi<any>('CreatePagesDeployment', {
+    ProjectId: projectId,
+    ViaMeta: 'Upload',
+    Provider: 'Upload',
+    Env: env,
+    DistType: isZip ? 'Zip' : 'Folder',
+    TempBucketPath: targetPath,
+  });
 };
 
 // COS (Cloud Object Storage) functions
-// Initialize COS with dynamic authentication
-const getCosInstance = async (): Promise<COS> => {
+// Refresh temporary credentials when they expire within this margin
+const COS_CREDENTIAL_REFRESH_MARGIN_SECONDS = 120;
+// Retries of a failed part in multipart uploads
+const COS_CHUNK_RETRY_TIMES = 3;
+// Attempts to upload a file before the upload is given up
+const COS_UPLOAD_ATTEMPTS = 3;
+// Existence checks and server-side copies of unchanged files run at a time
+const COS_REUSE_CONCURRENCY = 16;
+
+const toCosCredentials = (
+  response: CosTempTokenResponse['Data']['Response']
+): COS.Credentials => ({
+  TmpSecretId: response.Credentials.TmpSecretId,
+  TmpSecretKey: response.Credentials.TmpSecretKey,
+  SecurityToken: response.Credentials.Token,
+  StartTime: Math.floor(Date.now() / 1000),
+  ExpiredTime: response.ExpiredTime,
+});
+
+// Initialize COS with dynamic authentication. The SDK asks for credentials
+// again shortly before they expire; they are then refreshed from the API.
+const getCosInstance = async (ctx: DeploymentContext): Promise<COS> => {
+  const { tokenCache } = ctx;
   if (tokenCache.cos) {
     return tokenCache.cos;
   }
 
-  const result = await getCosTempToken();
+  const result = await getCosTempToken(ctx);
   if (
     result.Code !== 0 ||
     !result.Data ||
@@ -564,13 +1222,36 @@ const getCosInstance = async (): Promise<COS> => {
     throw new Error('Failed to get COS temp token');
   }
 
-  const response = result.Data.Response;
-  const credentials = response.Credentials;
-
   const cos = new COS({
-    SecretId: credentials.TmpSecretId,
-    SecretKey: credentials.TmpSecretKey,
-    SecurityToken: credentials.Token,
+    ChunkRetryTimes: COS_CHUNK_RETRY_TIMES,
+    getAuthorization: (_options, callback) => {
+      const current = (tokenCache.token || result).Data.Response;
+      const expiresIn = current.ExpiredTime - Date.now() / 1000;
+      if (
+        !current.ExpiredTime ||
+        expiresIn > COS_CREDENTIAL_REFRESH_MARGIN_SECONDS
+      ) {
+        callback(toCosCredentials(current));
+        return;
+      }
+
+      ctx.logger.log(
+        `[getCosInstance] COS credentials expire in ${Math.round(
+          expiresIn
+        )}s, refreshing`
+      );
+      getCosTempToken(ctx, true)
+        .then((refreshed) =>
+          callback(toCosCredentials(refreshed.Data.Response))
+        )
+        .catch((error) => {
+          // Let the request fail with the old credentials and be retried
+          ctx.logger.error(
+            `[getCosInstance] Failed to refresh COS credentials: ${error}`
+          );
+          callback(toCosCredentials(current));
+        });
+    },
   });
 
   tokenCache.cos = cos;
@@ -578,9 +1259,13 @@ const getCosInstance = async (): Promise<COS> => {
 };
 
 /**
- * Recursively list all files in a directory
+ * Recursively list all files in a directory, skipping ignored entries
  */
-const fastListFolder = async (rootPath: string): Promise<FileInfo[]> => {
+const fastListFolder = async (
+  ctx: DeploymentContext,
+  rootPath: string,
+  matcher?: IgnoreMatcher
+): Promise<FileInfo[]> => {
   const list: FileInfo[] = [];
 
   const deep = async (dirPath: string): Promise<void> => {
@@ -589,6 +1274,12 @@ const fastListFolder = async (rootPath: string): Promise<FileInfo[]> => {
     for (const file of files) {
       const filePath = path.join(dirPath, file.name);
       const isDir = file.isDirectory();
+      const relativePath = path
+        .relative(rootPath, filePath)
+        .replace(/\\/g, '/');
+      if (matcher?.isIgnored(relativePath, isDir)) {
+        continue;
+      }
       const stats = await fs.stat(filePath);
 
       list.push({
@@ -610,7 +1301,7 @@ const fastListFolder = async (rootPath: string): Promise<FileInfo[]> => {
     }
     return list;
   } catch (error) {
-    console.error('Error in fastListFolder: ' + error);
+    ctx.logger.error('Error in fastListFolder: ' + error);
     throw error;
   }
 };
@@ -650,33 +1341,368 @@ const getFiles = (
 };
 
 /**
- * Upload files to COS
+ * Upload files to COS. Files that fail are uploaded again, up to
+ * COS_UPLOAD_ATTEMPTS times; parts of large files are retried by the SDK.
  */
-const uploadFiles = async (files: CosFile[]): Promise<any> => {
-  const cos = await getCosInstance();
+const uploadFiles = async (
+  ctx: DeploymentContext,
+  files: CosFile[]
+): Promise<void> => {
+  const cos = await getCosInstance(ctx);
+  let finishedFiles = 0;
+  let loadedBytes = 0;
+  let totalBytes = 0;
+  const report = () =>
+    reportProgress(
+      ctx,
+      'upload',
+      totalBytes > 0 ? loadedBytes / totalBytes : 0,
+      `Uploading files: ${finishedFiles}/${files.length} files, ${formatBytes(
+        loadedBytes
+      )}/${formatBytes(totalBytes)}`
+    );
+
+  let pending = files;
+  for (let attempt = 1; ; attempt++) {
+    const result = await new Promise<COS.UploadFilesResult>(
+      (resolve, reject) => {
+        cos.uploadFiles(
+          {
+            files: pending,
+            SliceSize: 1024 * 1024,
+            onProgress: (info) => {
+              loadedBytes = info.loaded;
+              totalBytes = info.total;
+              report();
+            },
+            onFileFinish: (err) => {
+              if (!err) {
+                finishedFiles++;
+              }
+              report();
+            },
+          },
+          function (err, data) {
+            if (err) {
+              reject(err);
+            } else {
+              resolve(data);
+            }
+          }
+        );
+      }
+    );
+
+    const failed = (result?.files || []).filter((file) => file.error);
+    if (failed.length === 0) {
+      return;
+    }
+    if (attempt >= COS_UPLOAD_ATTEMPTS) {
+      throw new Error(
+        `Failed to upload ${failed.length} files after ${attempt} attempts: ${
+          failed[0].options.Key
+        }: ${failed[0].error?.message || failed[0].error}`
+      );
+    }
+
+    ctx.logger.warn(
+      `[uploadFiles] ${failed.length} files failed to upload, retrying (attempt ${
+        attempt + 1
+      }/${COS_UPLOAD_ATTEMPTS})`
+    );
+    await sleep(1000 * attempt, ctx.run.signal);
+    const failedKeys = new Set(failed.map((file) => file.options.Key));
+    pending = pending.filter((file) => failedKeys.has(file.Key));
+  }
+};
+
+/**
+ * Copy an object within COS without transferring its content through the client
+ */
+const copyObject = async (
+  ctx: DeploymentContext,
+  file: CosFile,
+  sourceKey: string
+): Promise<void> => {
+  const cos = await getCosInstance(ctx);
+  const encodedKey = sourceKey.split('/').map(encodeURIComponent).join('/');
   return new Promise((resolve, reject) => {
-    cos.uploadFiles(
+    cos.putObjectCopy(
       {
-        files: files,
-        SliceSize: 1024 * 1024,
+        Bucket: file.Bucket,
+        Region: file.Region,
+        Key: file.Key,
+        CopySource: `${file.Bucket}.cos.${file.Region}.myqcloud.com/${encodedKey}`,
       },
-      function (err, data) {
+      function (err) {
         if (err) {
           reject(err);
         } else {
-          resolve(data);
+          resolve();
         }
       }
     );
   });
 };
 
+/**
+ * Check that a previously uploaded object is still in COS with the given size
+ */
+const hasObject = async (
+  ctx: DeploymentContext,
+  file: CosFile,
+  size: number
+): Promise<boolean> => {
+  const cos = await getCosInstance(ctx);
+  return new Promise((resolve) => {
+    cos.headObject(
+      { Bucket: file.Bucket, Region: file.Region, Key: file.Key },
+      function (err, data) {
+        resolve(!err && Number(data?.headers?.['content-length']) === size);
+      }
+    );
+  });
+};
+
+/**
+ * Upload only the files that changed since the last successful deployment.
+ * Unchanged files are reused from the previous upload: skipped when the
+ * target path is the same and the object is still there, copied server-side
+ * otherwise.
+ */
+const uploadChangedFiles = async (
+  ctx: DeploymentContext,
+  files: CosFile[],
+  targetPath: string
+): Promise<Record<string, ManifestEntry>> => {
+  const { tokenCache } = ctx;
+  reportProgress(ctx, 'upload', 0, `Hashing ${files.length} files`);
+  const manifestFiles: Record<string, ManifestEntry> = {};
+  const relativePaths = new Map<CosFile, string>();
+
+  for (const file of files) {
+    const relativePath = file.Key.slice(targetPath.length + 1);
+    const stats = await fs.stat(file.FilePath);
+    manifestFiles[relativePath] = {
+      hash: await hashFile(file.FilePath),
+      size: stats.size,
+    };
+    relativePaths.set(file, relativePath);
+  }
+
+  const previous = tokenCache.projectId
+    ? await loadUploadManifest(tokenCache.projectId)
+    : undefined;
+
+  const toUpload: CosFile[] = [];
+  const toKeep: CosFile[] = [];
+  const toCopy: Array<{ file: CosFile; sourceKey: string }> = [];
+
+  for (const file of files) {
+    const relativePath = relativePaths.get(file) as string;
+    const current = manifestFiles[relativePath];
+    const last = previous?.files[relativePath];
+    const unchanged =
+      !!previous &&
+      !!last &&
+      last.hash === current.hash &&
+      last.size === current.size &&
+      previous.bucket === file.Bucket &&
+      previous.region === file.Region;
+
+    if (!unchanged) {
+      toUpload.push(file);
+    } else if (previous.targetPath === targetPath) {
+      toKeep.push(file);
+    } else {
+      toCopy.push({
+        file,
+        sourceKey: `${previous.targetPath}/${relativePath}`,
+      });
+    }
+  }
+
+  // Fall back to uploading when the previous object is no longer available,
+  // e.g. after the temporary bucket was cleaned up
+  let skipped = 0;
+  await runWithConcurrency(toKeep, COS_REUSE_CONCURRENCY, async (file) => {
+    const { size } = manifestFiles[relativePaths.get(file) as string];
+    if (await hasObject(ctx, file, size)) {
+      skipped++;
+    } else {
+      toUpload.push(file);
+    }
+  });
+
+  let copied = 0;
+  await runWithConcurrency(
+    toCopy,
+    COS_REUSE_CONCURRENCY,
+    async ({ file, sourceKey }) => {
+      try {
+        await copyObject(ctx, file, sourceKey);
+        copied++;
+      } catch (error) {
+        toUpload.push(file);
+      }
+    }
+  );
+
+  if (toUpload.length > 0) {
+    await uploadFiles(ctx, toUpload);
+  }
+
+  ctx.logger.log(
+    `[uploadToEdgeOneCOS] Uploaded ${toUpload.length} files, skipped ${
+      skipped + copied
+    } unchanged files${
+      copied > 0 ? ` (${copied} reused from the previous deployment)` : ''
+    }.`
+  );
+
+  return manifestFiles;
+};
+
+/**
+ * Refuse the deployment when the scanner finds secrets, unless explicitly allowed
+ */
+const checkForSecrets = async (
+  ctx: DeploymentContext,
+  scan: () => Promise<SecretFinding[]>,
+  options: FolderDeployOptions
+): Promise<void> => {
+  ctx.logger.log(`[checkForSecrets] Scanning files for secrets...`);
+  const findings = await scan();
+  if (findings.length === 0) {
+    return;
+  }
+
+  if (options.allowSensitiveFiles) {
+    ctx.logger.warn(
+      `[checkForSecrets] WARNING: Deploying ${findings.length} possible secrets because allowSensitiveFiles is set: ${findings
+        .map((finding) => `${finding.file} (${finding.reason})`)
+        .join(', ')}`
+    );
+    return;
+  }
+
+  throw new Error(formatSecretReport(findings));
+};
+
+/**
+ * Refuse the deployment when the site fails validation, unless explicitly skipped
+ */
+const checkSite = async (
+  ctx: DeploymentContext,
+  localPath: string,
+  folderList: FileInfo[],
+  options: FolderDeployOptions
+): Promise<void> => {
+  ctx.logger.log(`[checkSite] Validating site files...`);
+  const issues = await validateSite(
+    localPath,
+    await listSiteFiles(localPath, folderList),
+    isZipFile(localPath)
+  );
+  if (issues.length === 0) {
+    return;
+  }
+
+  if (options.skipValidation) {
+    ctx.logger.warn(
+      `[checkSite] WARNING: Deploying despite ${
+        issues.length
+      } validation problems because skipValidation is set: ${issues
+        .map((issue) => issue.message)
+        .join(' ')}`
+    );
+    return;
+  }
+
+  throw new Error(formatValidationReport(issues));
+};
+
+/**
+ * List the files a folder deploy would upload, applying the ignore rules.
+ * Zip files are uploaded as is and list nothing.
+ */
+const listSourceFiles = async (
+  ctx: DeploymentContext,
+  localPath: string,
+  options: IgnoreOptions
+): Promise<{ folderList: FileInfo[]; matcher?: IgnoreMatcher }> => {
+  if (isZipFile(localPath)) {
+    return { folderList: [] };
+  }
+
+  const matcher = await createIgnoreMatcher(localPath, options);
+  const folderList = await fastListFolder(ctx, localPath, matcher);
+  if (matcher.excluded.length > 0) {
+    ctx.logger.log(
+      `[listSourceFiles] Excluded ${
+        matcher.excluded.length
+      } paths by ignore rules: ${matcher.excluded.join(', ')}`
+    );
+  }
+  return { folderList, matcher };
+};
+
+/**
+ * Files of a deployment relative to its root: the entries of a zip file,
+ * or the listed files of a folder
+ */
+const listSiteFiles = async (
+  localPath: string,
+  folderList: FileInfo[]
+): Promise<SiteFile[]> =>
+  isZipFile(localPath)
+    ? listZipEntries(localPath)
+    : folderList
+        .filter((file) => !file.isDir)
+        .map((file) => ({
+          path: path.relative(localPath, file.path).replace(/\\/g, '/'),
+          size: file.size,
+        }));
+
+/**
+ * Scan a zip file, or the listed files of a folder, for secrets
+ */
+const scanSourceFiles = (
+  localPath: string,
+  folderList: FileInfo[]
+): Promise<SecretFinding[]> =>
+  isZipFile(localPath)
+    ? scanZipFile(localPath)
+    : scanFiles(
+        folderList.filter((file) => !file.isDir),
+        localPath
+      );
+
 /**
  * Upload a directory or zip file to EdgeOne COS
  */
-const uploadToEdgeOneCOS = async (localPath: string): Promise<UploadResult> => {
+const uploadToEdgeOneCOS = async (
+  ctx: DeploymentContext,
+  localPath: string,
+  options: FolderDeployOptions = {}
+): Promise<UploadResult> => {
   try {
-    const tokenResult = await getCosTempToken();
+    const isZip = isZipFile(localPath);
+
+    // List, validate and scan the files before anything is uploaded
+    const { folderList, matcher } = await listSourceFiles(
+      ctx,
+      localPath,
+      options
+    );
+    await checkSite(ctx, localPath, folderList, options);
+    await checkForSecrets(
+      ctx,
+      () => scanSourceFiles(localPath, folderList),
+      options
+    );
+
+    const tokenResult = await getCosTempToken(ctx);
     if (tokenResult.Code !== 0 || !tokenResult?.Data?.Response) {
       throw new Error(
         `Failed to get COS token: ${
@@ -696,105 +1722,228 @@ const uploadToEdgeOneCOS = async (localPath: string): Promise<UploadResult> => {
       );
     }
 
-    const isZip = isZipFile(localPath);
-
     if (isZip) {
       // Upload single zip file to COS
-      console.log(
+      ctx.logger.log(
         `[uploadToEdgeOneCOS] Uploading zip file to COS with targetPath: ${targetPath}...`
       );
 
       const fileName = path.basename(localPath);
-      const key = `${targetPath}/${fileName}`;
+      const cos = await getCosInstance(ctx);
+      // Streamed in parts; an interrupted upload resumes from its checkpoint
+      const { key, resumedParts } = await uploadFileMultipart({
+        cos,
+        bucket,
+        region,
+        key: `${targetPath}/${fileName}`,
+        filePath: localPath,
+        signal: ctx.run.signal,
+        onPart: (info) =>
+          reportProgress(
+            ctx,
+            'upload',
+            info.totalBytes ? info.uploadedBytes / info.totalBytes : 1,
+            `Uploading zip file: part ${info.partNumber}/${
+              info.totalParts
+            }, ${formatBytes(info.uploadedBytes)}/${formatBytes(
+              info.totalBytes
+            )}`
+          ),
+        log: (message) => ctx.logger.log(`[uploadFileMultipart] ${message}`),
+      });
+      ctx.logger.log(
+        `[uploadToEdgeOneCOS] Upload successful.${
+          resumedParts
+            ? ` Resumed with ${resumedParts} parts already uploaded.`
+            : ''
+        }`
+      );
+      return {
+        success: true,
+        targetPath: key,
+      };
+    } else {
+      // Convert to COS format
+      const files = getFiles(folderList, localPath, bucket, region, targetPath);
+
+      // Upload changed files to COS
+      ctx.logger.log(
+        `[uploadToEdgeOneCOS] Uploading ${files.length} files to COS with targetPath: ${targetPath}...`
+      );
+      const manifestFiles = await uploadChangedFiles(ctx, files, targetPath);
+      ctx.logger.log(`[uploadToEdgeOneCOS] Upload successful.`);
+
+      return {
+        success: true,
+        targetPath,
+        bucket,
+        region,
+        manifestFiles,
+        excluded: matcher?.excluded,
+      };
+    }
+  } catch (error) {
+    ctx.logger.error('Error uploading to COS: ' + error);
+    throw error;
+  }
+};
+
+/**
+ * Upload in-memory site files to EdgeOne COS as a folder deployment
+ */
+const uploadSiteFilesToEdgeOneCOS = async (
+  ctx: DeploymentContext,
+  files: Record<string, string>
+): Promise<UploadResult> => {
+  try {
+    const tokenResult = await getCosTempToken(ctx);
+    if (tokenResult.Code !== 0 || !tokenResult?.Data?.Response) {
+      throw new Error(
+        `Failed to get COS token: ${
+          tokenResult.Message || 'Invalid token response'
+        }`
+      );
+    }
 
-      // Read the file data
-      const fileBuffer = await fs.readFile(localPath);
-      const fileStats = await fs.stat(localPath);
+    const { Bucket, Region, TargetPath } = tokenResult.Data.Response;
+    if (!Bucket || !Region || !TargetPath) {
+      throw new Error(
+        'Missing required COS parameters (Bucket, Region, TargetPath) in token response.'
+      );
+    }
 
-      const cos = await getCosInstance();
-      return new Promise((resolve, reject) => {
+    const entries = Object.entries(files);
+    ctx.logger.log(
+      `[uploadToEdgeOneCOS] Uploading ${entries.length} files to COS with targetPath: ${TargetPath}...`
+    );
+
+    const cos = await getCosInstance(ctx);
+    const totalBytes = entries.reduce(
+      (sum, [, content]) => sum + Buffer.byteLength(content, 'utf-8'),
+      0
+    );
+    let loadedBytes = 0;
+    for (const [index, [filePath, content]] of entries.entries()) {
+      reportProgress(
+        ctx,
+        'upload',
+        totalBytes > 0 ? loadedBytes / totalBytes : 0,
+        `Uploading files: ${index}/${entries.length} files, ${formatBytes(
+          loadedBytes
+        )}/${formatBytes(totalBytes)}`
+      );
+      const body = Buffer.from(content, 'utf-8');
+      await new Promise<void>((resolve, reject) => {
         cos.putObject(
           {
-            Bucket: bucket,
-            Region: region,
-            Key: key,
-            Body: fileBuffer,
-            ContentLength: fileStats.size,
+            Bucket,
+            Region,
+            Key: `${TargetPath}/${filePath}`,
+            Body: body,
+            ContentLength: body.length,
           },
           function (err) {
             if (err) {
-              console.error('Error uploading zip file to COS: ' + err);
               reject(err);
             } else {
-              console.log(`[uploadToEdgeOneCOS] Upload successful.`);
-              resolve({
-                success: true,
-                targetPath: key,
-              });
+              resolve();
             }
           }
         );
       });
-    } else {
-      // List all files in the directory
-      const folderList = await fastListFolder(localPath);
-
-      // Convert to COS format
-      const files = getFiles(folderList, localPath, bucket, region, targetPath);
-
-      // Upload files to COS
-      console.log(
-        `[uploadToEdgeOneCOS] Uploading ${files.length} files to COS with targetPath: ${targetPath}...`
-      );
-      await uploadFiles(files);
-      console.log(`[uploadToEdgeOneCOS] Upload successful.`);
-
-      return {
-        success: true,
-        targetPath,
-      };
+      loadedBytes += body.length;
     }
+    ctx.logger.log(`[uploadToEdgeOneCOS] Upload successful.`);
+
+    return {
+      success: true,
+      targetPath: TargetPath,
+    };
   } catch (error) {
-    console.error('Error uploading to COS: ' + error);
+    ctx.logger.error('Error uploading to COS: ' + error);
     throw error;
   }
 };
 
+const POLL_INITIAL_INTERVAL_MS = 3000;
+const POLL_MAX_INTERVAL_MS = 30000;
+const POLL_BACKOFF_FACTOR = 1.5;
+const DEFAULT_DEPLOY_TIMEOUT_SECONDS = 600;
+
+/**
+ * Get the maximum time to wait for a deployment build
+ */
+const getDeployTimeoutMs = (): number => {
+  const seconds = Number(process.env.EDGEONE_PAGES_DEPLOY_TIMEOUT);
+  return (
+    (Number.isFinite(seconds) && seconds > 0
+      ? seconds
+      : DEFAULT_DEPLOY_TIMEOUT_SECONDS) * 1000
+  );
+};
+
 /**
- * Poll for deployment status until it's no longer processing
+ * Poll for deployment status until it's no longer processing.
+ * Waits with exponential backoff and gives up after the timeout,
+ * returning the last seen deployment with timedOut set.
  */
 const pollProjectStatus = async (
+  ctx: DeploymentContext,
   projectId: string,
   deploymentId: string
-): Promise<DeploymentResult> => {
+): Promise<{ deployment: DeploymentResult; timedOut: boolean }> => {
+  const { signal, timeoutMs = getDeployTimeoutMs() } = ctx.run;
+  const deadline = Date.now() + timeoutMs;
+  let interval = POLL_INITIAL_INTERVAL_MS;
+  let polls = 0;
   let isProcessing = true;
   let deployment = null;
 
   while (isProcessing) {
+    // Wait before each poll, never past the deadline
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      ctx.logger.warn(
+        `[pollProjectStatus] Timed out after ${Math.round(
+          timeoutMs / 1000
+        )}s waiting for deployment ${deploymentId}`
+      );
+      return { deployment: deployment as DeploymentResult, timedOut: true };
+    }
+    await sleep(Math.min(interval, remaining), signal);
+    interval = Math.min(interval * POLL_BACKOFF_FACTOR, POLL_MAX_INTERVAL_MS);
+
     // Get list of deployments
+    polls++;
     const deploymentsResult = await describePagesDeployments(projectId);
 
     // Find the specific deployment by deploymentId
     deployment = deploymentsResult.Data.Response.Deployments.find(
-      (deploy: any) => deploy.DeploymentId === deploymentId
+      (deploy) => deploy.DeploymentId === deploymentId
     );
 
     if (!deployment) {
       throw new Error(`Deployment with ID ${deploymentId} not found`);
     }
 
-    console.log(`[pollProjectStatus] Deployment status: ${deployment.Status}`);
+    ctx.logger.log(
+      `[pollProjectStatus] Deployment status: ${deployment.Status}`
+    );
+    // Approach the end of the poll phase without knowing the build duration
+    reportProgress(
+      ctx,
+      'poll',
+      1 - 1 / (polls + 1),
+      `Waiting for build (poll ${polls}): ${deployment.Status}`
+    );
 
     // Check if deployment is still processing
     if (deployment.Status !== 'Process') {
       isProcessing = false;
-    } else {
-      // Wait before next poll
-      await sleep(5000);
     }
   }
 
-  return deployment as DeploymentResult;
+  return { deployment: deployment as DeploymentResult, timedOut: false };
 };
 
 /**
@@ -818,19 +1967,43 @@ const validateFolder = async (localPath: string): Promise<boolean> => {
 };
 
 /**
- * Get project console URL based on the current API endpoint
+ * Build a project folder and log its build output with the deployment
  */
-const getProjectConsoleUrl = (projectId: string): string => {
-  const url1 = `https://console.cloud.tencent.com/edgeone/pages/project/${projectId}/index`;
-  const url2 = `https://console.tencentcloud.com/edgeone/pages/project/${projectId}/index`;
-
-  if (BASE_API_URL === BASE_API_URL1) {
-    return url1;
-  } else if (BASE_API_URL === BASE_API_URL2) {
-    return url2;
-  } else {
-    return url1;
+const runProjectBuild = async (
+  ctx: DeploymentContext,
+  projectPath: string
+): Promise<ProjectBuildResult> => {
+  if (await validateFolder(projectPath)) {
+    throw new Error(
+      'build requires a project folder with a package.json, not a zip file'
+    );
   }
+  reportProgress(ctx, 'build', 0, 'Building project');
+  const build = await buildProject(projectPath, {
+    signal: ctx.run.signal,
+    log: (message) => {
+      ctx.logger.log(`[buildProject] ${message}`);
+      reportProgress(ctx, 'build', 0.5, message);
+    },
+  });
+  ctx.logger.log(
+    `[buildProject] Build finished in ${(build.durationMs / 1000).toFixed(
+      1
+    )}s. Build output:\n${build.logs}`
+  );
+  return build;
+};
+
+// Build log lines included in the error of a failed deployment
+const FAILED_DEPLOYMENT_LOG_LINES = 40;
+
+/**
+ * Get project console URL based on the current API endpoint
+ */
+export const getProjectConsoleUrl = (projectId: string): string => {
+  return `${
+    getPagesEndpoint().consoleUrl
+  }/edgeone/pages/project/${projectId}/index`;
 };
 
 /**
@@ -840,17 +2013,12 @@ const getProjectConsoleUrl = (projectId: string): string => {
  * @param env Environment to deploy to, either 'Production' or 'Preview'
  * @returns Structured deployment result with type, url, projectId, and consoleUrl
  */
-const getDeploymentStructuredResult = async (
+export const getDeploymentStructuredResult = async (
+  ctx: DeploymentContext,
   deploymentResult: DeploymentResult,
   projectId: string,
-  env: 'Production' | 'Preview' = 'Production'
-): Promise<{
-  type: 'custom' | 'temporary';
-  url: string;
-  projectId: string;
-  consoleUrl: string;
-  projectName: string;
-}> => {
+  env: DeployEnv = 'Production'
+): Promise<DeploymentStructuredResult> => {
   // Get project details to get domain information
   const projectStatusResult = await describePagesProjects({
     projectId: projectId,
@@ -864,104 +2032,155 @@ const getDeploymentStructuredResult = async (
 
   // Check deployment status
   if (deploymentResult.Status === 'Success') {
-    // For Production environment, check for custom domains
-    if (
-      env === 'Production' &&
-      project.CustomDomains &&
-      project.CustomDomains.length > 0
-    ) {
-      const customDomain = project.CustomDomains[0];
-      if (customDomain.Status === 'Pass') {
-        return {
-          type: 'custom',
-          url: `https://${customDomain.Domain}`,
-          projectId,
-          projectName: project.Name,
-          consoleUrl: getProjectConsoleUrl(projectId),
-        };
-      }
+    // For Production environment, serve from the verified custom domains
+    const customDomains =
+      env === 'Production'
+        ? (project.CustomDomains || [])
+            .filter((customDomain) => customDomain.Status === 'Pass')
+            .map((customDomain) => `https://${customDomain.Domain}`)
+        : [];
+    if (customDomains.length > 0) {
+      return {
+        type: 'custom',
+        url: customDomains[0],
+        projectId,
+        projectName: project.Name,
+        consoleUrl: getProjectConsoleUrl(projectId),
+        deploymentId: deploymentResult.DeploymentId,
+        status: deploymentResult.Status,
+        env,
+        customDomains,
+      };
     }
 
-    // Process domain information
-    const domain = deploymentResult.PreviewUrl
-      ? deploymentResult.PreviewUrl.replace('https://', '')
-      : project.PresetDomain;
+    // Process domain information. Preview deployments are always served
+    // from their own preview URL, never from the project's custom domain.
+    const domain = deploymentResult.PreviewUrl || project.PresetDomain;
 
-    const encipherTokenResult = await describePagesEncipherToken(domain);
-
-    if (
-      encipherTokenResult.Code !== 0 ||
-      !encipherTokenResult?.Data?.Response?.Token ||
-      !encipherTokenResult?.Data?.Response?.Timestamp
-    ) {
-      throw new Error(
-        `Deployment completed, but failed to get access token: ${
-          encipherTokenResult.Message || 'Invalid token data'
-        }`
-      );
+    let signedUrl: SignedUrl;
+    try {
+      signedUrl = await createSignedUrl(domain);
+    } catch (error) {
+      if (error instanceof PagesError) {
+        throw error;
+      }
+      throw new Error(`Deployment completed. ${(error as Error).message}`);
     }
-    const { Token, Timestamp } = encipherTokenResult.Data.Response;
-    const url = `https://${domain}?eo_token=${Token}&eo_time=${Timestamp}`;
     return {
       type: 'temporary',
-      url: url,
+      url: signedUrl.url,
+      issuedAt: signedUrl.issuedAt,
       projectId,
       projectName: project.Name,
       consoleUrl: getProjectConsoleUrl(projectId),
+      deploymentId: deploymentResult.DeploymentId,
+      status: deploymentResult.Status,
+      env,
     };
   } else {
-    console.log(
+    ctx.logger.log(
       `[getDeploymentStructuredResult] Deployment failed with status: ${deploymentResult.Status}`
     );
-    throw new Error(
-      `Deployment failed with status: ${deploymentResult.Status}`
+    const { DeploymentId } = deploymentResult;
+
+    // The build log tells why; failing to fetch it must not hide the failure
+    let excerpt = '';
+    try {
+      const lines = await describePagesDeploymentLogs(projectId, DeploymentId);
+      if (lines.length > 0) {
+        excerpt = `\nBuild log:\n${excerptLines(
+          lines.join('\n'),
+          FAILED_DEPLOYMENT_LOG_LINES
+        )}`;
+      }
+    } catch (error) {
+      ctx.logger.warn(
+        `[describePagesDeploymentLogs] Failed to fetch deployment logs: ${error}`
+      );
+    }
+    throw new BuildFailedError(
+      `Deployment failed with status: ${deploymentResult.Status}${excerpt}\nFull log: get_deployment_logs with projectId ${projectId} and deploymentId ${DeploymentId}.`,
+      { deploymentId: DeploymentId }
     );
   }
 };
 
 /**
- * Deploy a local folder or zip file to EdgeOne Pages
- * @param localPath Path to the local folder or zip file to deploy
- * @param env Environment to deploy to, either 'Production' or 'Preview'
- * @returns URL to the deployed site
+ * Run the deployment pipeline: upload, get or create project, create deployment,
+ * poll until it finishes and format the result with the deployment logs
+ * @param prepare Validates or builds the source and returns whether it is a zip file
+ * @param upload Uploads the source to COS
  */
-export const deployFolderOrZipToEdgeOne = async (
-  localPath: string,
-  env: 'Production' | 'Preview' = 'Production'
-): Promise<string> => {
-  // Reset logs and override console at the start
-  resetLogs();
-  overrideConsole();
+const runDeployment = async (opts: {
+  prepare: (
+    ctx: DeploymentContext
+  ) => Promise<{ isZip: boolean; build?: ProjectBuildResult }>;
+  upload: (ctx: DeploymentContext) => Promise<UploadResult>;
+  env: DeployEnv;
+  project: ProjectSelection;
+  run?: DeployRunOptions;
+}): Promise<DeployOutcome> => {
+  const { prepare, upload, env, project, run = {} } = opts;
+
+  // Every deployment gets its own logs, credentials and project state
+  const ctx = createDeploymentContext(project, run);
+  const startedAt = Date.now();
+  let uploadMs = 0;
 
   try {
-    // Reset token cache at the start of deployment
-    resetTokenCache();
-    resetTempProjectName();
-
-    // Validate folder or zip file
-    const isZip = await validateFolder(localPath);
-
-    await checkAndSetBaseUrl();
+    // Validate the deployment source
+    reportProgress(ctx, 'validate', 0, 'Validating deployment source');
+    const { isZip, build } = await prepare(ctx);
+
+    reportProgress(ctx, 'endpoint', 0, 'Checking API endpoint');
+    await checkAndSetBaseUrl(ctx);
+    const reusable = await selectReusableTempProject(ctx);
+    if (reusable) {
+      ctx.logger.log(`Reusing temporary project ${reusable.Name}.`);
+    }
+    throwIfAborted(run.signal);
 
     // 1. Upload folder to COS
-    const uploadResult = await uploadToEdgeOneCOS(localPath);
+    const uploadStartedAt = Date.now();
+    const uploadResult = await upload(ctx);
+    uploadMs = Date.now() - uploadStartedAt;
+    throwIfAborted(run.signal);
     if (!uploadResult.targetPath) {
       throw new Error('COS upload succeeded but targetPath is missing.');
     }
     const targetPath = uploadResult.targetPath;
 
     // 2. Get or create project
-    console.log(`[getOrCreateProject] Getting or creating project...`);
-    const projectResult = await getOrCreateProject();
+    reportProgress(ctx, 'project', 0, 'Resolving project');
+    ctx.logger.log(`[getOrCreateProject] Getting or creating project...`);
+    const projectResult = await getOrCreateProject(ctx);
     if (!projectResult?.Data?.Response?.Projects?.[0]?.ProjectId) {
-      console.error('Invalid project data received: ' + projectResult);
+      ctx.logger.error('Invalid project data received: ' + projectResult);
       throw new Error('Failed to retrieve Project ID after get/create.');
     }
     const projectId = projectResult.Data.Response.Projects[0].ProjectId;
-    console.log(`[getOrCreateProject] Using Project ID: ${projectId}`);
+    const projectName = projectResult.Data.Response.Projects[0].Name;
+    ctx.logger.log(`[getOrCreateProject] Using Project ID: ${projectId}`);
+
+    // Warn when a Production deploy is about to replace the live site
+    let warning: string | undefined;
+    if (env === 'Production') {
+      const liveDeployment = await getCurrentProductionDeployment(projectId);
+      if (liveDeployment) {
+        warning = `This Production deployment replaces the live site (previous production deployment: ${liveDeployment.DeploymentId}). Use env "Preview" to deploy without affecting production.`;
+        ctx.logger.warn(`[createPagesDeployment] WARNING: ${warning}`);
+      }
+    }
 
     // 3. Create deployment
-    console.log(
+    throwIfAborted(run.signal);
+    reportProgress(
+      ctx,
+      'deployment',
+      0,
+      `Creating deployment in ${env} environment`
+    );
+    ctx.logger.log(
       `[createPagesDeployment] Creating deployment in ${env} environment...`
     );
     const res = await createPagesDeployment({
@@ -971,43 +2190,249 @@ export const deployFolderOrZipToEdgeOne = async (
       env,
     });
     const deploymentId = res.Data.Response.DeploymentId;
+    const buildStartedAt = Date.now();
+    const getTimings = (): DeployTimings => ({
+      uploadMs,
+      buildMs: Date.now() - buildStartedAt,
+      totalMs: Date.now() - startedAt,
+    });
 
     // 4. Wait for deployment to complete
-    console.log(
+    ctx.logger.log(
       `[pollProjectStatus] Waiting for deployment to complete (polling status)...`
     );
-    await sleep(5000);
-    const deploymentResult = await pollProjectStatus(projectId, deploymentId);
+    let deploymentResult: DeploymentResult;
+    try {
+      const polled = await pollProjectStatus(ctx, projectId, deploymentId);
+      if (polled.timedOut) {
+        const pendingResult: PendingDeploymentResult = {
+          type: 'pending',
+          deploymentId,
+          projectId,
+          projectName,
+          status: polled.deployment?.Status || 'Process',
+          consoleUrl: getProjectConsoleUrl(projectId),
+          env,
+          message: `Deployment is still in progress. Check its status later with get_deployment (projectId: ${projectId}, deploymentId: ${deploymentId}).`,
+          timings: getTimings(),
+          build,
+        };
+        return { result: pendingResult, logs: formatLogs(ctx) };
+      }
+      deploymentResult = polled.deployment;
+    } catch (error) {
+      if (run.signal?.aborted) {
+        throw new Error(
+          `Cancelled while waiting for deployment ${deploymentId} of project ${projectId}. The build continues on EdgeOne Pages; check it with get_deployment.`
+        );
+      }
+      throw error;
+    }
 
     // 5. Get structured deployment result and format message
     const structuredResult = await getDeploymentStructuredResult(
+      ctx,
       deploymentResult,
       projectId,
       env
     );
+    structuredResult.timings = getTimings();
+    if (warning) {
+      structuredResult.warning = warning;
+    }
+    if (uploadResult.excluded?.length) {
+      structuredResult.excluded = uploadResult.excluded;
+    }
+    if (build) {
+      structuredResult.build = build;
+    }
+    reportProgress(ctx, 'done', 1, 'Deployment complete');
+
+    // Remember the uploaded files so the next deploy only uploads changes
+    if (uploadResult.manifestFiles) {
+      await saveUploadManifest({
+        projectId,
+        bucket: uploadResult.bucket as string,
+        region: uploadResult.region as string,
+        targetPath,
+        createdAt: new Date().toISOString(),
+        files: uploadResult.manifestFiles,
+      }).catch((error) => {
+        ctx.logger.warn(
+          `[saveUploadManifest] Failed to save manifest: ${error}`
+        );
+      });
+    }
 
-    /**
-     * Format deployment result into user-friendly message
-     * @param deploymentResult The structured deployment result
-     * @returns Text message describing the deployment status
-     */
-
-    // Append deployment logs to the result
-    const logs = formatLogs();
-    const finalText = `${logs}
-
-results:
-${JSON.stringify(structuredResult, null, 2)}`;
-
-    return finalText;
+    return { result: structuredResult, logs: formatLogs(ctx) };
   } catch (error) {
     // Ensure logs are captured even on error
-    const logs = formatLogs();
+    const logs = formatLogs(ctx);
     const errorMessage = error instanceof Error ? error.message : String(error);
     const finalText = `${logs}Deployment failed: ${errorMessage}`;
+    // Keep typed errors so callers still see their code and RequestId
+    if (error instanceof PagesError) {
+      error.message = finalText;
+      throw error;
+    }
     throw new Error(finalText);
-  } finally {
-    // Always restore console
-    restoreConsole();
   }
 };
+
+/**
+ * Deploy a local folder or zip file to EdgeOne Pages
+ * @param localPath Path to the local folder or zip file to deploy
+ * @param env Environment to deploy to, either 'Production' or 'Preview'
+ * @param project Project ID or name to deploy to. Defaults to EDGEONE_PAGES_PROJECT_NAME,
+ * or a new temporary project when neither is set. A named project is created if missing.
+ * @param options Include/exclude globs applied on top of the folder's ignore files.
+ * With build set, localPath is a project source folder that is built first.
+ * @returns Structured deployment result and the deployment process log
+ */
+export const deployFolderOrZipToEdgeOne = async (
+  localPath: string,
+  env: DeployEnv = 'Production',
+  project: ProjectSelection = {},
+  options: FolderDeployOptions = {}
+): Promise<DeployOutcome> => {
+  // The build output folder when building, otherwise localPath itself
+  let sourcePath = localPath;
+  return runDeployment({
+    prepare: async (ctx) => {
+      if (!options.build) {
+        return { isZip: await validateFolder(localPath) };
+      }
+      const build = await runProjectBuild(ctx, localPath);
+      sourcePath = build.outputDir;
+      return { isZip: false, build };
+    },
+    upload: (ctx) => uploadToEdgeOneCOS(ctx, sourcePath, options),
+    env,
+    project,
+    run: options,
+  });
+};
+
+/**
+ * Deploy in-memory site files to EdgeOne Pages without writing them to disk
+ * @param files Map of relative file paths to file contents
+ * @param env Environment to deploy to, either 'Production' or 'Preview'
+ * @param project Project ID or name to deploy to, see deployFolderOrZipToEdgeOne
+ * @param run Cancellation signal and build timeout
+ * @returns Structured deployment result and the deployment process log
+ */
+export const deploySiteFilesToEdgeOne = async (
+  files: Record<string, string>,
+  env: DeployEnv = 'Production',
+  project: ProjectSelection = {},
+  run: DeployRunOptions = {}
+): Promise<DeployOutcome> => {
+  return runDeployment({
+    prepare: async () => ({ isZip: false }),
+    upload: (ctx) => uploadSiteFilesToEdgeOneCOS(ctx, files),
+    env,
+    project,
+    run,
+  });
+};
+
+/**
+ * Report what deployFolderOrZipToEdgeOne would do, without uploading or
+ * deploying anything. Runs the same validation, ignore rules and file listing
+ * locally; the target project is only looked up when an API token is set.
+ * @param localPath Path to the local folder or zip file
+ * @param env Environment the deploy would target
+ * @param project Project ID or name, see deployFolderOrZipToEdgeOne
+ * @param options Include/exclude globs applied on top of the folder's ignore files
+ */
+export const dryRunFolderOrZip = async (
+  localPath: string,
+  env: DeployEnv = 'Production',
+  project: ProjectSelection = {},
+  options: IgnoreOptions & { build?: boolean } = {}
+): Promise<DryRunResult> => {
+  if (options.build) {
+    // The files to deploy are only known once the build has run
+    throw new Error(
+      'dryRun cannot be combined with build: the build output is not known before building. Build the project and dry-run its output folder, or deploy with build and without dryRun.'
+    );
+  }
+  const ctx = createDeploymentContext(project);
+  const isZip = await validateFolder(localPath);
+  const notes: string[] = [];
+
+  const { folderList, matcher } = await listSourceFiles(
+    ctx,
+    localPath,
+    options
+  );
+  const siteFiles = await listSiteFiles(localPath, folderList);
+  let files: DeployPlan['files'] = siteFiles;
+  if (isZip) {
+    const stats = await fs.stat(localPath);
+    files = [{ path: path.basename(localPath), size: stats.size }];
+  }
+  const validationIssues = await validateSite(localPath, siteFiles, isZip);
+  if (validationIssues.length > 0) {
+    notes.push(formatValidationReport(validationIssues));
+  }
+  const sensitiveFiles = await scanSourceFiles(localPath, folderList);
+  if (sensitiveFiles.length > 0) {
+    notes.push(formatSecretReport(sensitiveFiles));
+  }
+
+  // Resolve the target project like the deploy would
+  let projectId: string | undefined = getProjectId(ctx) || undefined;
+  let projectName: string | undefined = getProjectName(ctx) || undefined;
+  let projectExists: boolean | null;
+  const reusable =
+    !projectId && !projectName && getApiKey() && shouldReuseTempProject(ctx)
+      ? await checkAndSetBaseUrl(ctx).then(() => selectReusableTempProject(ctx))
+      : undefined;
+  if (reusable) {
+    projectId = reusable.ProjectId;
+    projectName = reusable.Name;
+    projectExists = true;
+    notes.push(`Reuses the newest temporary project ${reusable.Name}.`);
+  } else if (!projectId && !projectName) {
+    projectName = getTempProjectName(ctx);
+    projectExists = false;
+  } else if (getApiKey()) {
+    await checkAndSetBaseUrl(ctx);
+    const existing = await findSelectedProject(ctx);
+    const found = existing?.Data.Response.Projects[0];
+    projectExists = !!found;
+    projectId = found?.ProjectId || projectId;
+    projectName = found?.Name || projectName;
+  } else if (projectId) {
+    projectExists = null;
+    notes.push(
+      `Cannot check whether project ${projectId} exists because EDGEONE_PAGES_API_TOKEN is not set.`
+    );
+  } else {
+    projectExists = null;
+    notes.push(
+      `Cannot check whether project ${projectName} exists because EDGEONE_PAGES_API_TOKEN is not set.`
+    );
+  }
+
+  return {
+    type: 'dry_run',
+    projectId,
+    projectName,
+    env,
+    plan: {
+      localPath,
+      isZip,
+      files,
+      fileCount: files.length,
+      totalBytes: files.reduce((total, file) => total + file.size, 0),
+      projectExists,
+      createsProject: projectExists === null ? null : !projectExists,
+      excluded: matcher?.excluded || [],
+      sensitiveFiles,
+      validationIssues,
+      notes,
+    },
+  };
+};
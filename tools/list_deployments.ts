@@ -0,0 +1,140 @@
+import {
+  DeploymentResult,
+  describePagesDeploymentLogs,
+  describePagesDeployments,
+  findPagesDeployment,
+  withPagesApi,
+} from './deploy_folder_or_zip.js';
+import { buildPagination, excerptLines, Pagination } from '../src/utils.js';
+
+export interface DeploymentSummary {
+  deploymentId: string;
+  projectId: string;
+  env: string;
+  status: string;
+  usedInProd: boolean;
+  previewUrl: string;
+  repoBranch: string | null;
+  commitHash: string;
+  commitMessage: string | null;
+  buildCost: string;
+  createdOn: string;
+  modifiedOn: string;
+}
+
+export interface ListDeploymentsResult {
+  projectId: string;
+  deployments: DeploymentSummary[];
+  pagination: Pagination;
+}
+
+export const toDeploymentSummary = (
+  deployment: DeploymentResult
+): DeploymentSummary => ({
+  deploymentId: deployment.DeploymentId,
+  projectId: deployment.ProjectId,
+  env: deployment.Env,
+  status: deployment.Status,
+  usedInProd: deployment.UsedInProd,
+  previewUrl: deployment.PreviewUrl,
+  repoBranch: deployment.RepoBranch,
+  commitHash: deployment.RepoCommitHash,
+  commitMessage: deployment.RepoCommitMsg,
+  buildCost: deployment.BuildCost,
+  createdOn: deployment.CreatedOn,
+  modifiedOn: deployment.ModifiedOn,
+});
+
+/**
+ * List deployments of a project, newest first
+ * @param projectId The project ID
+ * @param offset Number of deployments to skip
+ * @param limit Maximum number of deployments to return
+ */
+export const listDeployments = async (
+  projectId: string,
+  offset: number = 0,
+  limit: number = 20
+): Promise<ListDeploymentsResult> => {
+  return withPagesApi(async () => {
+    const result = await describePagesDeployments(projectId, {
+      offset,
+      limit,
+    });
+    const deployments = result?.Data?.Response?.Deployments || [];
+
+    return {
+      projectId,
+      deployments: deployments.map(toDeploymentSummary),
+      pagination: buildPagination(
+        offset,
+        limit,
+        deployments.length,
+        result?.Data?.Response?.TotalCount
+      ),
+    };
+  });
+};
+
+/**
+ * Find a single deployment of a project by its ID
+ * @param projectId The project ID
+ * @param deploymentId The deployment ID
+ */
+export const getDeployment = async (
+  projectId: string,
+  deploymentId: string
+): Promise<DeploymentSummary> => {
+  return withPagesApi(async () => {
+    const deployment = await findPagesDeployment(projectId, deploymentId);
+    if (!deployment) {
+      throw new Error(
+        `Deployment with ID ${deploymentId} not found in project ${projectId}`
+      );
+    }
+    return toDeploymentSummary(deployment);
+  });
+};
+
+export interface DeploymentLogsResult {
+  projectId: string;
+  deploymentId: string;
+  env: string;
+  status: string;
+  lineCount: number;
+  // Whether earlier lines were left out to stay within maxLines
+  truncated: boolean;
+  logs: string;
+}
+
+/**
+ * Get the build and error log of a deployment
+ * @param projectId The project ID
+ * @param deploymentId The deployment ID
+ * @param maxLines Maximum number of lines to return, keeping the last ones
+ */
+export const getDeploymentLogs = async (
+  projectId: string,
+  deploymentId: string,
+  maxLines: number = 500
+): Promise<DeploymentLogsResult> => {
+  return withPagesApi(async () => {
+    const deployment = await findPagesDeployment(projectId, deploymentId);
+    if (!deployment) {
+      throw new Error(
+        `Deployment with ID ${deploymentId} not found in project ${projectId}`
+      );
+    }
+    const lines = await describePagesDeploymentLogs(projectId, deploymentId);
+
+    return {
+      projectId,
+      deploymentId,
+      env: deployment.Env,
+      status: deployment.Status,
+      lineCount: lines.length,
+      truncated: lines.length > maxLines,
+      logs: excerptLines(lines.join('\n'), maxLines),
+    };
+  });
+};
@@ -0,0 +1,55 @@
+import {
+  describePagesProjects,
+  getProjectConsoleUrl,
+  withPagesApi,
+} from './deploy_folder_or_zip.js';
+import { buildPagination, Pagination } from '../src/utils.js';
+
+export interface ProjectSummary {
+  projectId: string;
+  name: string;
+  status: string;
+  presetDomain: string;
+  customDomains: Array<{ domain: string; status: string }>;
+  consoleUrl: string;
+}
+
+export interface ListProjectsResult {
+  projects: ProjectSummary[];
+  pagination: Pagination;
+}
+
+/**
+ * List EdgeOne Pages projects with their domains and status
+ * @param offset Number of projects to skip
+ * @param limit Maximum number of projects to return
+ */
+export const listProjects = async (
+  offset: number = 0,
+  limit: number = 20
+): Promise<ListProjectsResult> => {
+  return withPagesApi(async () => {
+    const result = await describePagesProjects({ offset, limit });
+    const projects = result?.Data?.Response?.Projects || [];
+
+    return {
+      projects: projects.map((project) => ({
+        projectId: project.ProjectId,
+        name: project.Name,
+        status: project.Status,
+        presetDomain: project.PresetDomain,
+        customDomains: (project.CustomDomains || []).map((domain) => ({
+          domain: domain.Domain,
+          status: domain.Status,
+        })),
+        consoleUrl: getProjectConsoleUrl(project.ProjectId),
+      })),
+      pagination: buildPagination(
+        offset,
+        limit,
+        projects.length,
+        result?.Data?.Response?.TotalCount
+      ),
+    };
+  });
+};
@@ -0,0 +1,172 @@
+import {
+  DeploymentContext,
+  DeploymentResult,
+  describePagesDeployments,
+  findPagesDeployment,
+  getCurrentProductionDeployment,
+  getDeploymentStructuredResult,
+  rollbackPagesDeployment,
+  withPagesApi,
+} from './deploy_folder_or_zip.js';
+import { sleep } from '../src/utils.js';
+
+const SWITCH_POLL_INTERVAL_MS = 3000;
+const SWITCH_POLL_ATTEMPTS = 20;
+
+export interface ProductionSwitchResult {
+  action: 'rollback' | 'promote';
+  projectId: string;
+  projectName: string;
+  deploymentId: string;
+  previousProductionDeploymentId: string | null;
+  url: string;
+  type: 'custom' | 'temporary';
+  consoleUrl: string;
+  customDomains?: string[];
+}
+
+/**
+ * Wait until the target deployment is reported as serving Production traffic
+ */
+const waitForProduction = async (
+  projectId: string,
+  deploymentId: string
+): Promise<DeploymentResult> => {
+  for (let attempt = 0; attempt < SWITCH_POLL_ATTEMPTS; attempt++) {
+    const deployment = await findPagesDeployment(projectId, deploymentId);
+    if (deployment?.UsedInProd) {
+      return deployment;
+    }
+    await sleep(SWITCH_POLL_INTERVAL_MS);
+  }
+  throw new Error(
+    `Deployment ${deploymentId} was not serving production after ${
+      (SWITCH_POLL_INTERVAL_MS * SWITCH_POLL_ATTEMPTS) / 1000
+    }s. Check its status with get_deployment.`
+  );
+};
+
+/**
+ * Switch production to an existing deployment without uploading it again
+ */
+const switchProduction = async (
+  ctx: DeploymentContext,
+  action: 'rollback' | 'promote',
+  projectId: string,
+  target: DeploymentResult
+): Promise<ProductionSwitchResult> => {
+  const previous = await getCurrentProductionDeployment(projectId);
+
+  await rollbackPagesDeployment({
+    projectId,
+    deploymentId: target.DeploymentId,
+  });
+  const deployment = await waitForProduction(projectId, target.DeploymentId);
+
+  const structuredResult = await getDeploymentStructuredResult(
+    ctx,
+    deployment,
+    projectId,
+    'Production'
+  );
+
+  return {
+    action,
+    projectId,
+    projectName: structuredResult.projectName,
+    deploymentId: target.DeploymentId,
+    previousProductionDeploymentId: previous?.DeploymentId || null,
+    url: structuredResult.url,
+    type: structuredResult.type,
+    consoleUrl: structuredResult.consoleUrl,
+    customDomains: structuredResult.customDomains,
+  };
+};
+
+/**
+ * Make a previous successful Production deployment live again
+ * @param projectId The project ID
+ * @param deploymentId Deployment to roll back to. Defaults to the most recent
+ * successful Production deployment before the one currently live.
+ */
+export const rollbackDeployment = async (
+  projectId: string,
+  deploymentId?: string
+): Promise<ProductionSwitchResult> => {
+  return withPagesApi(async (ctx) => {
+    let target: DeploymentResult | undefined;
+
+    if (deploymentId) {
+      target = await findPagesDeployment(projectId, deploymentId);
+      if (!target) {
+        throw new Error(
+          `Deployment with ID ${deploymentId} not found in project ${projectId}`
+        );
+      }
+    } else {
+      const result = await describePagesDeployments(projectId);
+      const deployments = result?.Data?.Response?.Deployments || [];
+      const liveIndex = deployments.findIndex((deploy) => deploy.UsedInProd);
+      target = deployments
+        .slice(liveIndex + 1)
+        .find(
+          (deploy) => deploy.Env === 'Production' && deploy.Status === 'Success'
+        );
+      if (!target) {
+        throw new Error(
+          `No previous successful Production deployment found in project ${projectId}`
+        );
+      }
+    }
+
+    if (target.Env !== 'Production') {
+      throw new Error(
+        `Deployment ${target.DeploymentId} is a ${target.Env} deployment. Use promote_deployment to publish a Preview deployment.`
+      );
+    }
+    if (target.Status !== 'Success') {
+      throw new Error(
+        `Cannot roll back to deployment ${target.DeploymentId} with status ${target.Status}`
+      );
+    }
+    if (target.UsedInProd) {
+      throw new Error(
+        `Deployment ${target.DeploymentId} is already serving production`
+      );
+    }
+
+    return switchProduction(ctx, 'rollback', projectId, target);
+  });
+};
+
+/**
+ * Promote a successful Preview deployment to Production
+ * @param projectId The project ID
+ * @param deploymentId The Preview deployment to promote
+ */
+export const promoteDeployment = async (
+  projectId: string,
+  deploymentId: string
+): Promise<ProductionSwitchResult> => {
+  return withPagesApi(async (ctx) => {
+    const target = await findPagesDeployment(projectId, deploymentId);
+    if (!target) {
+      throw new Error(
+        `Deployment with ID ${deploymentId} not found in project ${projectId}`
+      );
+    }
+
+    if (target.Env !== 'Preview') {
+      throw new Error(
+        `Deployment ${deploymentId} is not a Preview deployment. Use rollback_deployment for Production deployments.`
+      );
+    }
+    if (target.Status !== 'Success') {
+      throw new Error(
+        `Cannot promote deployment ${deploymentId} with status ${target.Status}`
+      );
+    }
+
+    return switchProduction(ctx, 'promote', projectId, target);
+  });
+};